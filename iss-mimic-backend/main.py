@@ -6,7 +6,7 @@ import math
 from XRPLib.pid import PID
 
 from XRPLib.defaults import *
-from pestolink import PestoLinkAgent
+from pestolink import PestoLinkAgent, SerialLinkAgent
 
 #Helper function for motor angle
 '''
@@ -77,8 +77,27 @@ def move_motor_angles_pid(motor, angle_degrees, max_speed=40, tolerance=1, timeo
 #Name should be 8 characters max!
 robot_name = "IssMimic"
 
+# Set to True to take commands over the USB cable (frontend "USB Serial" transport) instead of Bluetooth
+use_serial_link = False
+
 # Create an instance of the PestoLinkAgent class
-pestolink = PestoLinkAgent(robot_name)
+if use_serial_link:
+    pestolink = SerialLinkAgent()
+else:
+    pestolink = PestoLinkAgent(robot_name)
+
+# Servos only reach 0-180, so 270 becomes 90. Angles from v4 packets can be
+# negative (e.g. after a mapping offset) and wrap around first, so -90 is 270.
+def servo_angle(angle):
+    angle = angle % 360
+    if angle <= 180:
+        return angle
+    return 360 - angle
+
+# Frontend alerts hold this button bit for a few seconds to flash the LED.
+# Keep in sync with LED_BUTTON in the frontend's utils/packetSchema.ts.
+LED_BUTTON = 8
+led_blinking = False
 
 throttleThreshold = 0
 rotateThreshold = 0.25
@@ -88,31 +107,23 @@ print("Hello")
 # Start an infinite loop
 while True:
     time.sleep(0.1)
+    if use_serial_link:
+        pestolink.poll()
     if pestolink.is_connected():  # Check if a BLE connection is established
         
-        if pestolink.get_angle(0) >= 0 and pestolink.get_angle(0) <= 360:
-            if pestolink.get_angle(0) <= 180:
-                servo_one.set_angle(pestolink.get_angle(0))
-            else:
-                servo_one.set_angle(360-pestolink.get_angle(0))
+        servo_one.set_angle(servo_angle(pestolink.get_angle(0)))
+        servo_two.set_angle(servo_angle(pestolink.get_angle(1)))
+        servo_three.set_angle(servo_angle(pestolink.get_angle(2)))
+        servo_four.set_angle(servo_angle(pestolink.get_angle(4)))
 
-        if pestolink.get_angle(1) >= 0 and pestolink.get_angle(1) <= 360:
-            if pestolink.get_angle(1) <= 180:
-                servo_two.set_angle(pestolink.get_angle(1))
-            else:
-                servo_two.set_angle(360-pestolink.get_angle(1))
-
-        if pestolink.get_angle(2) >= 0 and pestolink.get_angle(2) <= 360:
-            if pestolink.get_angle(2) <= 180:
-                servo_three.set_angle(pestolink.get_angle(2))
-            else:
-                servo_three.set_angle(360-pestolink.get_angle(2))
-    
-        if pestolink.get_angle(4) >= 0 and pestolink.get_angle(4) <= 360:
-            if pestolink.get_angle(4) <= 180:
-                servo_four.set_angle(pestolink.get_angle(4))
-            else:
-                servo_four.set_angle(360-pestolink.get_angle(4))
+        # Blink the LED for as long as the packets hold the LED button bit
+        if pestolink.get_button(LED_BUTTON):
+            if not led_blinking:
+                board.led_blink(4)
+                led_blinking = True
+        elif led_blinking:
+            board.led_off()
+            led_blinking = False
         
         '''       
         TODO: Test with the motors. The current implementation is not the best one.  
@@ -126,9 +137,13 @@ while True:
         
         batteryVoltage = (ADC(Pin("BOARD_VIN_MEASURE")).read_u16())/(1024*64/14)
         pestolink.telemetryPrintBatteryVoltage(batteryVoltage)
+        pestolink.sendFrameAck()
 
     else: #default behavior when no BLE connection is open
         drivetrain.arcade(0, 0)
         servo_one.set_angle(70)
+        if led_blinking:
+            board.led_off()
+            led_blinking = False
 
 
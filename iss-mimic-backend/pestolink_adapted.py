@@ -1,7 +1,10 @@
 from micropython import const
 import bluetooth
+import micropython
 import random
+import select
 import struct
+import sys
 import time
 
 
@@ -38,6 +41,34 @@ _ADV_TYPE_UUID32_MORE = const(0x4)
 _ADV_TYPE_UUID128_MORE = const(0x6)
 _ADV_TYPE_APPEARANCE = const(0x19)
 
+# Highest packet version this firmware understands. Keep in sync with
+# PACKET_SCHEMAS in iss-mimic-frontend/utils/packetSchema.ts
+_PROTOCOL_VERSION = const(0x05)
+_PROTOCOL_ANNOUNCE_EVERY = const(10)
+
+# Optional framing in the spare packet bytes. Keep in sync with FRAME_* in packetSchema.ts
+_FRAME_MARKER = const(0xA5)
+_FRAME_MARKER_IDX = const(17)
+_FRAME_SEQUENCE_IDX = const(18)
+_FRAME_CRC_IDX = const(24)
+_ACK_INTERVAL_MS = const(1000)
+
+# Latency probe: answered at once with "PONG" + the 2-byte id. Keep in sync with PING_COMMAND
+_PING_COMMAND = const(0xF0)
+
+
+# CRC-16/CCITT-FALSE, matching crc16 in robotPackets.ts
+def crc16(data):
+    crc = 0xFFFF
+    for byte in data:
+        crc ^= byte << 8
+        for _ in range(8):
+            if crc & 0x8000:
+                crc = ((crc << 1) ^ 0x1021) & 0xFFFF
+            else:
+                crc = (crc << 1) & 0xFFFF
+    return crc
+
 
 # Generate a payload to be passed to gap_advertise(adv_data=...).
 def advertising_payload(limited_disc=False, br_edr=False, name=None, services=None, appearance=0):
@@ -109,6 +140,9 @@ class PestoLinkAgent:
         self._byte_list = [1,127,127,127,127,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0]
         self._advertise()
         self.last_telemetry_ms = 0
+        self._telemetry_count = 0
+        self._reset_frame_counters()
+        self.last_ack_ms = 0
 
     def _irq(self, event, data):
         # Track connections so we can send notifications.
@@ -116,6 +150,8 @@ class PestoLinkAgent:
             conn_handle, _, _ = data
             #print("New connection")
             self._connections.add(conn_handle)
+            self._telemetry_count = 0
+            self._reset_frame_counters()
         elif event == _IRQ_CENTRAL_DISCONNECT:
             conn_handle, _, _ = data
             #print("Disconnected")
@@ -139,26 +175,58 @@ class PestoLinkAgent:
         #print("Starting advertising")
         self._ble.gap_advertise(interval_us, adv_data=self._payload)
 
+    def _reset_frame_counters(self):
+        self._frames_accepted = 0
+        self._frames_rejected = 0
+        self._last_sequence = 0
+
+    #Returns False if the packet is framed but its CRC does not match
+    def _check_frame(self, raw):
+        if len(raw) <= _FRAME_CRC_IDX + 1 or raw[_FRAME_MARKER_IDX] != _FRAME_MARKER:
+            return True  # Unframed packets are accepted as before
+        expected = raw[_FRAME_CRC_IDX] | (raw[_FRAME_CRC_IDX + 1] << 8)
+        if crc16(bytes(raw[:_FRAME_CRC_IDX])) != expected:
+            self._frames_rejected = (self._frames_rejected + 1) & 0xFFFF
+            return False
+        self._frames_accepted = (self._frames_accepted + 1) & 0xFFFF
+        self._last_sequence = raw[_FRAME_SEQUENCE_IDX] | (raw[_FRAME_SEQUENCE_IDX + 1] << 8)
+        return True
+
     #Initialiated when data is written to the RX characteristic. Now it all begins in 0.
     def on_write(self, value):
         _raw_byte_list = [byte for byte in value]
+        if len(_raw_byte_list) >= 3 and _raw_byte_list[0] == _PING_COMMAND:
+            self.sendPong(_raw_byte_list[1], _raw_byte_list[2])
+            return  # Not a pose, keep the last one
+        if not self._check_frame(_raw_byte_list):
+            return  # Corrupted frame, keep the last good packet
         if (_raw_byte_list[0] == 0x01):
             self._byte_list = _raw_byte_list
-        elif (_raw_byte_list[0] == 0x02):
+        elif (_raw_byte_list[0] >= 0x02 and _raw_byte_list[0] <= 0x05):
             self._byte_list = _raw_byte_list
         else:
             self._byte_list = [1,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0]
     
-    #GETS THE ANGLES FROM 0 TO 360. Currently 2 bytes per angle, 4 angles total
+    def _is_extended(self):
+        # v2 to v5 share the same layout; v3 makes the coordinates official,
+        # v4 sends angles as signed tenths of a degree and v5 adds pings
+        return self._byte_list[0] >= 0x02 and self._byte_list[0] <= 0x05
+
+    #GETS THE ANGLES FROM 0 TO 360 (-360 TO 360 IN v4 AND v5). Currently 2 bytes per angle, 6 angles total
     def get_angle(self, angle_num):
         if angle_num < 0 or angle_num > 5 or self._byte_list == None:  # Now support 6 angles (0-5)
             return 0
         else:
             # Calculate index for this angle (each angle takes 2 bytes)
-            if self._byte_list[0] == 0x02:  # Extended protocol (v2)
+            if self._is_extended():  # Extended protocol (v2-v5)
                 base_idx = 1 + (angle_num * 2)
                 # Combine low and high bytes
-                return self._byte_list[base_idx] | (self._byte_list[base_idx + 1] << 8)
+                raw = self._byte_list[base_idx] | (self._byte_list[base_idx + 1] << 8)
+                if self._byte_list[0] >= 0x04:  # Signed tenths of a degree
+                    if raw >= 0x8000:
+                        raw -= 0x10000
+                    return raw / 10
+                return raw
             else:  # Original protocol (v1)
                 if angle_num <= 3:  # Only angles 0-3 supported in v1
                     base_idx = 1 + (angle_num * 2)
@@ -171,7 +239,7 @@ class PestoLinkAgent:
         if self._byte_list is None:
             return (0, 0)
     
-        if self._byte_list[0] == 0x02:  # Extended protocol (v2)
+        if self._is_extended():  # Extended protocol (v2-v5)
             x = self._byte_list[15]
             y = self._byte_list[16]
             return (x, y)
@@ -196,7 +264,7 @@ class PestoLinkAgent:
         if self._byte_list == None:
             return False
         
-        if self._byte_list[0] == 0x02:  # Extended protocol
+        if self._is_extended():  # Extended protocol
             raw_buttons = (self._byte_list[14] << 8) + self._byte_list[13]
         else:  # Original protocol
             raw_buttons = (self._byte_list[10] << 8) + self._byte_list[9]
@@ -208,7 +276,7 @@ class PestoLinkAgent:
             
     def telemetryPrint(self, telemetry, hex_code):
         if self.last_telemetry_ms + 500 > time.ticks_ms():
-            return
+            return False
 
         result = bytearray(11)
         
@@ -236,8 +304,37 @@ class PestoLinkAgent:
         
         self.send(result)  # Assuming BLE characteristic write
         self.last_telemetry_ms = time.ticks_ms()
+        return True
+
+    #Reports framing counters as "ACK" + last sequence, accepted and rejected counts (uint16 each)
+    def sendFrameAck(self):
+        if self.last_ack_ms + _ACK_INTERVAL_MS > time.ticks_ms() or self._frames_accepted + self._frames_rejected == 0:
+            return
+        result = bytearray(11)
+        result[0:3] = b"ACK"
+        struct.pack_into("<HHH", result, 4, self._last_sequence, self._frames_accepted, self._frames_rejected)
+        self.send(result)
+        self.last_ack_ms = time.ticks_ms()
+
+    #Echoes a ping id back as "PONG" + id, skipping the telemetry rate limit
+    def sendPong(self, id_low, id_high):
+        result = bytearray(11)
+        result[0:4] = b"PONG"
+        result[4] = id_low
+        result[5] = id_high
+        self.send(result)
+
+    #Tells the frontend which packet version we understand, as "PROTO vN"
+    def telemetryPrintProtocolVersion(self):
+        return self.telemetryPrint("PROTO v" + str(_PROTOCOL_VERSION), "FFFFFF")
         
     def telemetryPrintBatteryVoltage(self, battery_voltage):
+        #Every few reports (starting with the first after connecting), announce the protocol instead
+        if self._telemetry_count % _PROTOCOL_ANNOUNCE_EVERY == 0:
+            if self.telemetryPrintProtocolVersion():
+                self._telemetry_count += 1
+            return
+
         voltage_string = "{:.2f} V".format(battery_voltage)
         
         """if battery_voltage >= 7.6:
@@ -245,4 +342,74 @@ class PestoLinkAgent:
         elif battery_voltage >= 7:
             self.telemetryPrint(voltage_string, "FFFF00")
         else:"""
-        self.telemetryPrint(voltage_string, "FF0000")
+        if self.telemetryPrint(voltage_string, "FF0000"):
+            self._telemetry_count += 1
+
+
+# SLIP framing for the USB serial link. Keep in sync with utils/transports/slip.ts
+_SLIP_END = const(0xC0)
+_SLIP_ESC = const(0xDB)
+_SLIP_ESC_END = const(0xDC)
+_SLIP_ESC_ESC = const(0xDD)
+_SERIAL_TIMEOUT_MS = const(2000)
+
+
+def slip_encode(data):
+    out = bytearray([_SLIP_END])
+    for byte in data:
+        if byte == _SLIP_END:
+            out += bytes([_SLIP_ESC, _SLIP_ESC_END])
+        elif byte == _SLIP_ESC:
+            out += bytes([_SLIP_ESC, _SLIP_ESC_ESC])
+        else:
+            out.append(byte)
+    out.append(_SLIP_END)
+    return out
+
+
+class SerialLinkAgent(PestoLinkAgent):
+    """Same packet handling as PestoLinkAgent, but over the USB serial port.
+
+    Used by the frontend's "USB Serial" transport. Call poll() every loop;
+    the link counts as connected while frames keep arriving. The frontend
+    sends empty frames as a keepalive while it has nothing else to send.
+    """
+
+    def __init__(self):
+        micropython.kbd_intr(-1)  # Packets may contain 0x03, which would otherwise stop the program
+        self._poller = select.poll()
+        self._poller.register(sys.stdin, select.POLLIN)
+        self._frame = bytearray()
+        self._escaped = False
+        self._last_rx_ms = None
+        self._byte_list = [1,127,127,127,127,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0]
+        self.last_telemetry_ms = 0
+        self._telemetry_count = 0
+        self._reset_frame_counters()
+        self.last_ack_ms = 0
+
+    def poll(self):
+        while self._poller.poll(0):
+            byte = sys.stdin.buffer.read(1)[0]
+            if self._escaped:
+                self._frame.append(_SLIP_END if byte == _SLIP_ESC_END else _SLIP_ESC if byte == _SLIP_ESC_ESC else byte)
+                self._escaped = False
+            elif byte == _SLIP_ESC:
+                self._escaped = True
+            elif byte == _SLIP_END:
+                if not self.is_connected():
+                    # First frame after a gap counts as a new connection
+                    self._telemetry_count = 0
+                    self._reset_frame_counters()
+                self._last_rx_ms = time.ticks_ms()
+                if len(self._frame) > 0:
+                    self.on_write(self._frame)
+                self._frame = bytearray()
+            else:
+                self._frame.append(byte)
+
+    def send(self, data):
+        sys.stdout.buffer.write(slip_encode(data))
+
+    def is_connected(self):
+        return self._last_rx_ms is not None and time.ticks_diff(time.ticks_ms(), self._last_rx_ms) < _SERIAL_TIMEOUT_MS
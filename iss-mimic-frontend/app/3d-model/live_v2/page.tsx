@@ -8,17 +8,16 @@ import { useBluetooth } from '@/contexts/BluetoothContext';
 import { createRobotPacket, setButtonBit } from '@/utils/robotPackets';
 import SolarPanel2 from '@/components/SolarPanel_v2';
 import TelemetryDisplay from '@/components/TelemetryDisplay';
-import { useTelemetry } from '@/contexts/TelemetryContext';
+import { useTelemetryValue } from '@/contexts/TelemetryContext';
 
 export default function IssModel() {
 
-    const { telemetryItems } = useTelemetry();
-    const telemetrySARJ1 = telemetryItems["S0000003"];
-    const telemetrySARJ2 = telemetryItems["S0000004"];
-    const telemetryBGA1 = telemetryItems["P4000007"];
-    const telemetryBGA3 = telemetryItems["P6000007"];
-    const telemetryBGA5 = telemetryItems["S4000007"];
-    const telemetryBGA7 = telemetryItems["S6000007"];
+    const telemetrySARJ1 = useTelemetryValue("S0000003");
+    const telemetrySARJ2 = useTelemetryValue("S0000004");
+    const telemetryBGA1 = useTelemetryValue("P4000007");
+    const telemetryBGA3 = useTelemetryValue("P6000007");
+    const telemetryBGA5 = useTelemetryValue("S4000007");
+    const telemetryBGA7 = useTelemetryValue("S6000007");
 
     const { 
         isConnected,
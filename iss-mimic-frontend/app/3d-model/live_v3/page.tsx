@@ -2,46 +2,82 @@
 
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Sky, Stars } from '@react-three/drei';
-import React, {useState, ChangeEvent, FormEvent, useEffect} from 'react';
+import React, {useState, ChangeEvent, FormEvent, useEffect, useMemo} from 'react';
 import BluetoothConnectionInfo from '@/components/BluetoothConnectionInfo';
-import { useBluetooth } from '@/contexts/BluetoothContext';
+import RobotTargetSelect from '@/components/RobotTargetSelect';
+import { RobotTarget, useRobotSender } from '@/contexts/BluetoothContext';
 import { createRobotPacket, setButtonBit } from '@/utils/robotPackets';
+import { createParkPacket } from '@/utils/safety';
+import { useJointMapping } from '@/contexts/JointMappingContext';
+import { jointAnglesFromTelemetry, mappedTelemetryIds } from '@/utils/jointMapping';
 import SolarPanel2 from '@/components/SolarPanel_v2';
 import TelemetryDisplay from '@/components/TelemetryDisplay';
-import { useTelemetry } from '@/contexts/TelemetryContext';
+import TelemetryReplayControls from '@/components/TelemetryReplayControls';
+import SignalStatusBadge from '@/components/SignalStatusBadge';
+import { getTelemetryItem, useSignalKind, useTelemetryValue, useTelemetryValuesKey } from '@/contexts/TelemetryContext';
 import SolarPanel3 from '@/components/SolarPanel_v3';
+import GroundTrackMap from '@/components/GroundTrackMap';
+
+// What the robot does while the signal is not AOS
+type SignalLossAction = 'follow' | 'freeze' | 'park';
+
+const SIGNAL_LOSS_STORAGE_KEY = 'issMimic.signalLossAction';
 
 export default function IssModel() {
 
-    const { telemetryItems } = useTelemetry();
-    const telemetrySARJ1 = telemetryItems["S0000003"];
-    const telemetrySARJ2 = telemetryItems["S0000004"];
-    const telemetryBGA1 = telemetryItems["P4000007"];
-    const telemetryBGA3 = telemetryItems["P6000007"];
-    const telemetryBGA5 = telemetryItems["S4000007"];
-    const telemetryBGA7 = telemetryItems["S6000007"];
+    // Only signal transitions, these items and the mapped ones re-render the page (and the Canvas with it)
+    const signalKind = useSignalKind();
+    const telemetrySARJ1 = useTelemetryValue("S0000003");
+    const telemetrySARJ2 = useTelemetryValue("S0000004");
+    const telemetryBGA1 = useTelemetryValue("P4000007");
+    const telemetryBGA3 = useTelemetryValue("P6000007");
+    const telemetryBGA5 = useTelemetryValue("S4000007");
+    const telemetryBGA7 = useTelemetryValue("S6000007");
 
+    // Not useBluetooth: link diagnostics would re-render the whole Canvas
     const { 
         isConnected,
         sendPacket,
-    } = useBluetooth();
+        packetVersionFor,
+    } = useRobotSender();
+    const { mapping, mapJoints } = useJointMapping();
+    // Whatever items the mapping reads, not just the ones drawn below
+    const mappedIds = useMemo(() => mappedTelemetryIds(mapping), [mapping]);
+    const mappedValues = useTelemetryValuesKey(mappedIds);
+    const [target, setTarget] = useState<RobotTarget>('all');
+    const packetVersion = packetVersionFor(target);
+    const [lossAction, setLossAction] = useState<SignalLossAction>('follow');
+
+    // Load the saved choice once on the client
+    useEffect(() => {
+        const saved = localStorage.getItem(SIGNAL_LOSS_STORAGE_KEY);
+        if (saved === 'follow' || saved === 'freeze' || saved === 'park') {
+            setLossAction(saved);
+        }
+    }, []);
+
+    const handleLossActionChange = (action: SignalLossAction) => {
+        setLossAction(action);
+        localStorage.setItem(SIGNAL_LOSS_STORAGE_KEY, action);
+    };
+
+    // Stop chasing last-known values unless asked to
+    const holding = signalKind !== 'aos' && lossAction !== 'follow';
 
     const sendTelemetryPacket = () => {
         console.log("Preparing to send telemetry update...");
+        if (holding) {
+            console.log(`Signal is ${signalKind}, holding the robot`);
+            return;
+        }
         if (isConnected) {
             console.log("Device is connected, sending telemetry update...");
             const packet = createRobotPacket({ 
-                angles: { 
-                    angle0: telemetryBGA1?.value ? Number(telemetryBGA1.value) : 0,
-                    angle1: telemetryBGA3?.value ? Number(telemetryBGA3.value) : 0,
-                    angle2: telemetryBGA5?.value ? Number(telemetryBGA5.value) : 0,
-                    angle3: telemetryBGA7?.value ? Number(telemetryBGA7.value) : 0,
-                    angle4: telemetrySARJ1?.value ? Number(telemetrySARJ1.value) : 0,
-                    angle5: telemetrySARJ2?.value ? Number(telemetrySARJ2.value) : 0
-                },
-                buttons: { byte0: 1 } 
+                angles: mapJoints(jointAnglesFromTelemetry(id => getTelemetryItem(id)?.value)),
+                buttons: { byte0: 1 },
+                version: packetVersion
             });
-            sendPacket(packet);
+            sendPacket(packet, target);
             console.log("Sending telemetry update:", packet);
         }
     };
@@ -50,30 +86,56 @@ export default function IssModel() {
     useEffect(() => {
         sendTelemetryPacket();
     }, [
-        telemetrySARJ1?.value, 
-        telemetrySARJ2?.value, 
-        telemetryBGA1?.value, 
-        telemetryBGA3?.value, 
-        telemetryBGA5?.value, 
-        telemetryBGA7?.value,
-        isConnected // Also monitor connection state
+        mappedValues,
+        isConnected, // Also monitor connection state
+        packetVersion,
+        target,
+        mapJoints, // Resend when the joint mapping is edited
+        holding // Catch up as soon as the signal is back
     ]);
 
+    // Park once when the signal is lost
+    useEffect(() => {
+        if (isConnected && holding && lossAction === 'park') {
+            sendPacket(createParkPacket(packetVersion), target);
+        }
+    }, [holding, lossAction, isConnected, packetVersion, target]);
+
     return (
     <div className="position-relative">
         {/* Bluetooth Button and Info */}
         <div className="position-absolute top-0 start-0 p-3 bg-dark bg-opacity-75 text-white m-3 rounded shadow-sm" style={{ zIndex: 10, maxWidth: '500px' }}>
             <BluetoothConnectionInfo />
+            <div className="mt-2">
+                <RobotTargetSelect value={target} onChange={setTarget} />
+            </div>
         </div>
 
         <div className="position-absolute top-0 end-0 p-3 bg-dark bg-opacity-75 text-white m-3 rounded shadow-sm" style={{ zIndex: 10, maxWidth: '300px' }}>
-            <h5 className="mb-3 fw-bold">Telemetry Info</h5>
+            <h5 className="mb-2 fw-bold">Telemetry Info</h5>
+                <SignalStatusBadge className="mb-2" />
+                <div className="mb-3">
+                    <label htmlFor="loss-action" className="form-label small mb-1">When the signal is lost</label>
+                    <select
+                        id="loss-action"
+                        className="form-select form-select-sm"
+                        value={lossAction}
+                        onChange={(e) => handleLossActionChange(e.target.value as SignalLossAction)}
+                    >
+                        <option value="follow">Keep following last-known values</option>
+                        <option value="freeze">Freeze the robot</option>
+                        <option value="park">Park the robot</option>
+                    </select>
+                </div>
                 <TelemetryDisplay itemId="S0000003" className="d-block mb-2" />
                 <TelemetryDisplay itemId="S0000004" className="d-block mb-2" />
                 <TelemetryDisplay itemId="P4000007" className="d-block mb-2" />
                 <TelemetryDisplay itemId="P6000007" className="d-block mb-2" />
                 <TelemetryDisplay itemId="S4000007" className="d-block mb-2" />
                 <TelemetryDisplay itemId="S6000007" className="d-block mb-2" />
+                <TelemetryReplayControls className="mt-3" />
+                <h6 className="mt-3 mb-1">Ground Track</h6>
+                <GroundTrackMap className="rounded" />
         </div>
 
         
@@ -6,6 +6,7 @@ import React, {useState, ChangeEvent, FormEvent, useEffect} from 'react';
 import BluetoothConnectionInfo from '@/components/BluetoothConnectionInfo';
 import { useBluetooth } from '@/contexts/BluetoothContext';
 import { createRobotPacket, setButtonBit } from '@/utils/robotPackets';
+import { useJointMapping } from '@/contexts/JointMappingContext';
 import SolarPanel2 from '@/components/SolarPanel_v2';
 import TelemetryDisplay from '@/components/TelemetryDisplay';
 import SolarPanel3 from '@/components/SolarPanel_v3';
@@ -25,7 +26,9 @@ export default function IssModel() {
     const { 
         isConnected,
         sendPacket,
+        packetVersion,
     } = useBluetooth();
+    const { mapJoints } = useJointMapping();
 
     // Function to generate a random angle between 0 and 360
     const generateRandomAngle = (): number => {
@@ -46,15 +49,16 @@ export default function IssModel() {
         if (isConnected) {
             console.log("Device is connected, sending telemetry update...");
             const packet = createRobotPacket({ 
-                angles: { 
-                    angle0: newBGA1,
-                    angle1: newBGA3,
-                    angle2: newBGA5,
-                    angle3: newBGA7,
-                    angle4: newSARJ1,
-                    angle5: newSARJ2
-                },
-                buttons: { byte0: 1 } 
+                angles: mapJoints({ 
+                    bga1: newBGA1,
+                    bga3: newBGA3,
+                    bga5: newBGA5,
+                    bga7: newBGA7,
+                    sarjStarboard: newSARJ1,
+                    sarjPort: newSARJ2
+                }),
+                buttons: { byte0: 1 },
+                version: packetVersion
             });
             sendPacket(packet);
             console.log("Sending telemetry update:", packet);
@@ -5,8 +5,10 @@ import { OrbitControls, Sky, Stars } from '@react-three/drei';
 import SolarPanel from '@/components/SolarPanel';
 import React, {useState, ChangeEvent, FormEvent} from 'react';
 import BluetoothConnectionInfo from '@/components/BluetoothConnectionInfo';
-import { useBluetooth } from '@/contexts/BluetoothContext';
+import RobotTargetSelect from '@/components/RobotTargetSelect';
+import { RobotTarget, useBluetooth } from '@/contexts/BluetoothContext';
 import { createRobotPacket, setButtonBit } from '@/utils/robotPackets';
+import { useJointMapping } from '@/contexts/JointMappingContext';
 import SolarPanel2 from '@/components/SolarPanel_v2';
 import SolarPanel3 from '@/components/SolarPanel_v3';
 
@@ -36,23 +38,32 @@ export default function IssModel() {
     const { 
         isConnected,
         sendPacket,
+        packetVersionFor,
     } = useBluetooth();
+    const { mapJoints } = useJointMapping();
+    const [target, setTarget] = useState<RobotTarget>('all');
+
+    // Panels and groups are sent through the shared joint mapping
+    const buildPosePacket = (betaAngles: typeof panelBetaAngles, alphaAngles: typeof groupAlphaAngles) => {
+        return createRobotPacket({ 
+            angles: mapJoints({ 
+                bga1: betaAngles.panel1,             // Panel 1 beta
+                bga3: betaAngles.panel2,             // Panel 2 beta
+                bga5: betaAngles.panel3,             // Panel 3 beta
+                bga7: betaAngles.panel4,             // Panel 4 beta
+                sarjStarboard: alphaAngles.group1,   // Group 1 alpha
+                sarjPort: alphaAngles.group2         // Group 2 alpha
+            }),
+            buttons: { byte0: 1 },
+            version: packetVersionFor(target)
+        });
+    };
 
     //Send all angles functions
     const sendAllAngles = () => {
         if (isConnected) {
-            const packet = createRobotPacket({ 
-                angles: { 
-                    angle0: panelBetaAngles.panel1,  // Panel 1 beta
-                    angle1: panelBetaAngles.panel2,  // Panel 2 beta
-                    angle2: panelBetaAngles.panel3,  // Panel 3 beta
-                    angle3: panelBetaAngles.panel4,  // Panel 4 beta
-                    angle4: groupAlphaAngles.group1, // Group 1 alpha
-                    angle5: groupAlphaAngles.group2  // Group 2 alpha
-                },
-                buttons: { byte0: 1 } 
-            });
-            sendPacket(packet);
+            const packet = buildPosePacket(panelBetaAngles, groupAlphaAngles);
+            sendPacket(packet, target);
             console.log("All angles packet:", packet);
         }
     };
@@ -96,18 +107,8 @@ export default function IssModel() {
         
         // Send packet with the updated values immediately
         if (isConnected) {
-            const packet = createRobotPacket({ 
-                angles: { 
-                    angle0: panelBetaAngles.panel1,
-                    angle1: panelBetaAngles.panel2,
-                    angle2: panelBetaAngles.panel3,
-                    angle3: panelBetaAngles.panel4,
-                    angle4: updatedAlphaAngles.group1,
-                    angle5: updatedAlphaAngles.group2
-                },
-                buttons: { byte0: 1 } 
-            });
-            sendPacket(packet);
+            const packet = buildPosePacket(panelBetaAngles, updatedAlphaAngles);
+            sendPacket(packet, target);
             console.log("Sending alpha update:", packet);
         }
     };
@@ -133,18 +134,8 @@ export default function IssModel() {
         
         // Send packet with the updated values immediately
         if (isConnected) {
-            const packet = createRobotPacket({ 
-                angles: { 
-                    angle0: panelBetaAngles.panel1,
-                    angle1: panelBetaAngles.panel2,
-                    angle2: panelBetaAngles.panel3,
-                    angle3: panelBetaAngles.panel4,
-                    angle4: updatedAlphaAngles.group1,
-                    angle5: updatedAlphaAngles.group2
-                },
-                buttons: { byte0: 1 } 
-            });
-            sendPacket(packet);
+            const packet = buildPosePacket(panelBetaAngles, updatedAlphaAngles);
+            sendPacket(packet, target);
             console.log("Reset alpha angles:", packet);
         }
     };
@@ -190,18 +181,8 @@ export default function IssModel() {
         
         // Send packet with the updated values immediately
         if (isConnected) {
-            const packet = createRobotPacket({ 
-                angles: { 
-                    angle0: updatedBetaAngles.panel1,
-                    angle1: updatedBetaAngles.panel2,
-                    angle2: updatedBetaAngles.panel3,
-                    angle3: updatedBetaAngles.panel4,
-                    angle4: groupAlphaAngles.group1,
-                    angle5: groupAlphaAngles.group2
-                },
-                buttons: { byte0: 1 } 
-            });
-            sendPacket(packet);
+            const packet = buildPosePacket(updatedBetaAngles, groupAlphaAngles);
+            sendPacket(packet, target);
             console.log("Sending beta update:", packet);
         }
     };
@@ -229,18 +210,8 @@ export default function IssModel() {
         
         // Send packet with the updated values immediately
         if (isConnected) {
-            const packet = createRobotPacket({ 
-                angles: { 
-                    angle0: updatedBetaAngles.panel1,
-                    angle1: updatedBetaAngles.panel2,
-                    angle2: updatedBetaAngles.panel3,
-                    angle3: updatedBetaAngles.panel4,
-                    angle4: groupAlphaAngles.group1,
-                    angle5: groupAlphaAngles.group2
-                },
-                buttons: { byte0: 1 } 
-            });
-            sendPacket(packet);
+            const packet = buildPosePacket(updatedBetaAngles, groupAlphaAngles);
+            sendPacket(packet, target);
             console.log("Reset beta angles:", packet);
         }
     };
@@ -250,6 +221,9 @@ export default function IssModel() {
         {/* Bluetooth Button and Info */}
         <div className="position-absolute top-0 start-0 p-3 bg-dark bg-opacity-75 text-white m-3 rounded shadow-sm" style={{ zIndex: 10, maxWidth: '500px' }}>
             <BluetoothConnectionInfo />
+            <div className="mt-2">
+                <RobotTargetSelect value={target} onChange={setTarget} />
+            </div>
         </div>
 
         {/* Telemetry overlay */}
@@ -282,6 +256,7 @@ export default function IssModel() {
                     onChange={(e) => setAlphaSliderValue(Number(e.target.value))} 
                     value={alphaSliderValue}
                     type="number"
+                    step="0.1"
                 />
                 <button type="submit" className="btn btn-primary">Set Alpha</button>
                 <button 
@@ -323,6 +298,7 @@ export default function IssModel() {
                     onChange={(e) => setBetaSliderValue(Number(e.target.value))} 
                     value={betaSliderValue}
                     type="number"
+                    step="0.1"
                 />
                 <button type="submit" className="btn btn-primary">Set Beta</button>
                 <button 
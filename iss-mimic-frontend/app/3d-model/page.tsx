@@ -4,15 +4,14 @@ import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Sky, Stars } from '@react-three/drei';
 import SolarPanel from '@/components/SolarPanel';
 import TelemetryDisplay from '@/components/TelemetryDisplay';
-import { useTelemetry, TELEMETRY_ITEMS } from '@/contexts/TelemetryContext';
+import { useTelemetryValue } from '@/contexts/TelemetryContext';
 import BluetoothConnectionInfo from '@/components/BluetoothConnectionInfo';
 import { useBluetooth } from '@/contexts/BluetoothContext';
 import { createRobotPacket, setButtonBit } from '@/utils/robotPackets';
 import { useEffect } from 'react';
 
 export default function IssModel() {
-    const { telemetryItems } = useTelemetry();
-    const telemetry = telemetryItems["S0000004"];
+    const telemetry = useTelemetryValue("S0000004");
 
     useEffect(() => {
         console.log('Telemetry value changed:', telemetry?.value);
@@ -0,0 +1,65 @@
+'use client';
+
+import AlertRuleEditor from '@/components/AlertRuleEditor';
+import { useAlerts } from '@/contexts/AlertContext';
+import { SEVERITY_CLASSES } from '@/utils/alertRules';
+import { LED_BUTTON } from '@/utils/packetSchema';
+
+export default function AlertsPage() {
+  const { log, clearLog } = useAlerts();
+
+  return (
+    <div className="container py-4">
+      <div className="card shadow mb-4">
+        <div className="card-header">
+          <h5 className="card-title mb-0">Alert Rules</h5>
+        </div>
+        <div className="card-body">
+          <p className="text-muted">
+            Rules are checked every second against live telemetry, even while a replay is showing.
+            A rule fires when its condition becomes true, at most once per cooldown, and shows a
+            notification on every page. Flashing LEDs holds the chosen button bit in the robot
+            packets for a few seconds without changing the pose; main.py blinks the XRP&apos;s LED
+            while bit {LED_BUTTON} is set. Rules and the log are saved in this browser.
+          </p>
+          <AlertRuleEditor />
+        </div>
+      </div>
+
+      <div className="card shadow">
+        <div className="card-header d-flex justify-content-between align-items-center">
+          <h5 className="card-title mb-0">Event Log</h5>
+          <button type="button" className="btn btn-outline-secondary btn-sm" onClick={clearLog} disabled={log.length === 0}>
+            Clear Log
+          </button>
+        </div>
+        <div className="card-body">
+          {log.length === 0 ? (
+            <p className="text-muted mb-0">No alerts yet.</p>
+          ) : (
+            <table className="table table-sm align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>Severity</th>
+                  <th>Rule</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {log.map(event => (
+                  <tr key={event.id}>
+                    <td className="text-nowrap">{new Date(event.at).toLocaleString()}</td>
+                    <td><span className={`badge ${SEVERITY_CLASSES[event.severity]} text-uppercase`}>{event.severity}</span></td>
+                    <td>{event.ruleName}</td>
+                    <td>{event.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  computeGroundTrack,
+  DEFAULT_GROUND_TRACK_OPTIONS,
+  MAX_GROUND_TRACK_POINTS,
+  orbitalPeriodMinutes,
+} from '@/utils/groundTrack';
+import { loadIssSatrec } from '@/utils/issTle';
+
+const MIN_STEP_SECONDS = 5;
+
+// Reads a non-negative number parameter, or the default when it is missing
+const readNumber = (request: NextRequest, name: string, fallback: number): number | null => {
+  const raw = request.nextUrl.searchParams.get(name);
+  if (raw === null || raw === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+/**
+ * Sampled ISS ground track around now
+ *
+ * Query parameters: pastMinutes (default 90), futureOrbits (default 3) and
+ * stepSeconds (default 60, at least 5).
+ */
+export async function GET(request: NextRequest) {
+  const defaults = DEFAULT_GROUND_TRACK_OPTIONS;
+  const pastMinutes = readNumber(request, 'pastMinutes', defaults.pastMinutes);
+  const futureOrbits = readNumber(request, 'futureOrbits', defaults.futureOrbits);
+  const stepSeconds = readNumber(request, 'stepSeconds', defaults.stepSeconds);
+  if (pastMinutes === null || futureOrbits === null || stepSeconds === null || stepSeconds < MIN_STEP_SECONDS) {
+    return NextResponse.json(
+      { error: `pastMinutes and futureOrbits must be non-negative numbers and stepSeconds at least ${MIN_STEP_SECONDS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { satrec, tle } = await loadIssSatrec();
+
+    const windowMinutes = pastMinutes + futureOrbits * orbitalPeriodMinutes(satrec);
+    if ((windowMinutes * 60) / stepSeconds > MAX_GROUND_TRACK_POINTS) {
+      return NextResponse.json(
+        { error: `Window too long for that step; at most ${MAX_GROUND_TRACK_POINTS} points are returned` },
+        { status: 400 }
+      );
+    }
+
+    const groundTrack = computeGroundTrack(satrec, new Date(), { pastMinutes, futureOrbits, stepSeconds });
+    return NextResponse.json({ ...groundTrack, tleTimestamp: tle.timestamp });
+  } catch (error) {
+    console.error('Error computing ISS ground track:', error);
+    return NextResponse.json({ error: 'Failed to compute ISS ground track' }, { status: 500 });
+  }
+}
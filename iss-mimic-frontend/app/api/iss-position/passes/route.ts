@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadIssSatrec } from '@/utils/issTle';
+import {
+  DEFAULT_PASS_PREDICTION_OPTIONS,
+  MAX_PASS_PREDICTION_DAYS,
+  predictPasses,
+} from '@/utils/passPrediction';
+
+// Reads a number parameter, or the default when it is missing
+const readNumber = (request: NextRequest, name: string, fallback: number | null): number | null => {
+  const raw = request.nextUrl.searchParams.get(name);
+  if (raw === null || raw === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Upcoming ISS passes over an observer
+ *
+ * Query parameters: lat and lon in degrees (required), alt in metres
+ * (default 0), days (default 3, at most 10) and minElevation in degrees
+ * (default 10).
+ */
+export async function GET(request: NextRequest) {
+  const defaults = DEFAULT_PASS_PREDICTION_OPTIONS;
+  const latitude = readNumber(request, 'lat', null);
+  const longitude = readNumber(request, 'lon', null);
+  const altitude = readNumber(request, 'alt', 0);
+  const days = readNumber(request, 'days', defaults.days);
+  const minElevation = readNumber(request, 'minElevation', defaults.minElevation);
+
+  if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return NextResponse.json(
+      { error: 'lat (-90 to 90) and lon (-180 to 180) are required' },
+      { status: 400 }
+    );
+  }
+  if (altitude === null || days === null || days <= 0 || days > MAX_PASS_PREDICTION_DAYS
+    || minElevation === null || minElevation < 0 || minElevation > 90) {
+    return NextResponse.json(
+      { error: `alt must be a number, days between 0 and ${MAX_PASS_PREDICTION_DAYS} and minElevation between 0 and 90` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { satrec, tle } = await loadIssSatrec();
+    const observer = { latitude, longitude, altitude };
+    const now = new Date();
+    const passes = predictPasses(satrec, observer, now, { days, minElevation });
+
+    return NextResponse.json({
+      generatedAt: now.toISOString(),
+      observer,
+      days,
+      minElevation,
+      passes,
+      tle: { line1: tle.ISS_TLE_Line1, line2: tle.ISS_TLE_Line2, timestamp: tle.timestamp },
+    });
+  } catch (error) {
+    console.error('Error predicting ISS passes:', error);
+    return NextResponse.json({ error: 'Failed to predict ISS passes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTelemetryRelay } from '@/utils/telemetryRelay/relay';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Latest relayed value of every telemetry item.
+ *
+ * ?history=ID,ID (or ?history=all) adds the stored history of those items,
+ * limited to the last windowMs milliseconds when given.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const relay = getTelemetryRelay();
+    const { connected, updates } = relay.getSnapshot();
+    const items = Object.fromEntries(
+      updates.map(({ itemId, fields, observedAt }) => [itemId, { fields, observedAt }])
+    );
+
+    const historyParam = request.nextUrl.searchParams.get('history');
+    if (!historyParam) {
+      return NextResponse.json({ connected, items });
+    }
+
+    const windowMs = Number(request.nextUrl.searchParams.get('windowMs'));
+    const since = windowMs > 0 ? Date.now() - windowMs : 0;
+    const stored = relay.getHistory(historyParam === 'all' ? undefined : historyParam.split(','));
+    const history = Object.fromEntries(
+      Object.entries(stored).map(([id, { timestamps, values }]) => {
+        const first = timestamps.findIndex(timestamp => timestamp >= since);
+        const start = first === -1 ? timestamps.length : first;
+        return [id, { timestamps: timestamps.slice(start), values: values.slice(start) }];
+      })
+    );
+
+    return NextResponse.json({ connected, items, history });
+  } catch (error) {
+    console.error('Error handling telemetry snapshot:', error);
+    return NextResponse.json({ error: 'Failed to get telemetry' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { getTelemetryRelay, RelayEvent } from '@/utils/telemetryRelay/relay';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Comment lines keep proxies from closing an idle stream during LOS
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream of relayed telemetry.
+ *
+ * Sends a "snapshot" event with every cached update on connect, then
+ * "update" events as they arrive and "status" events when the upstream
+ * connection changes.
+ */
+export async function GET(request: NextRequest) {
+  const relay = getTelemetryRelay();
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      send('snapshot', relay.getSnapshot());
+
+      const unsubscribe = relay.subscribe((event: RelayEvent) => {
+        if (event.type === 'update') {
+          send('update', event.update);
+        } else {
+          send('status', { connected: event.connected });
+        }
+      });
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(': heartbeat\n\n')), HEARTBEAT_INTERVAL_MS);
+
+      let closed = false;
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away
+        }
+      };
+      request.signal.addEventListener('abort', cleanup);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import JointMappingEditor from '@/components/JointMappingEditor';
+
+export default function JointMappingPage() {
+  return (
+    <div className="container py-4">
+      <div className="card shadow">
+        <div className="card-header">
+          <h5 className="card-title mb-0">Joint Mapping</h5>
+        </div>
+        <div className="card-body">
+          <p className="text-muted">
+            Choose which ISS joint drives each angle slot of the robot packet. Inversion mirrors
+            the angle (360 - angle), then scale and offset are applied. Changes are saved in this
+            browser and used by the live, demo and manual 3D pages.
+          </p>
+          <JointMappingEditor />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import Navbar from "@/components/Navbar";
 import { TelemetryProvider } from "@/contexts/TelemetryContext";
 import { BluetoothProvider } from "@/contexts/BluetoothContext";
 import { IssPositionProvider } from "@/contexts/IssPositionContext";
+import { JointMappingProvider } from "@/contexts/JointMappingContext";
+import { AlertProvider } from "@/contexts/AlertContext";
+import AlertNotifications from "@/components/AlertNotifications";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -35,8 +38,13 @@ export default function RootLayout({
         <BluetoothProvider>
         <TelemetryProvider>
         <IssPositionProvider>
+        <JointMappingProvider>
+        <AlertProvider>
           <Navbar />
           {children}
+          <AlertNotifications />
+        </AlertProvider>
+        </JointMappingProvider>
         </IssPositionProvider>
         </TelemetryProvider>
         </BluetoothProvider>
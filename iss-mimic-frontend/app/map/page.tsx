@@ -7,8 +7,9 @@ import React, {useState, ChangeEvent, FormEvent, useEffect} from 'react';
 import BluetoothConnectionInfo from '@/components/BluetoothConnectionInfo';
 import { useBluetooth } from '@/contexts/BluetoothContext';
 import { createRobotPacket } from '@/utils/robotPackets';
-import { Room } from '@/components/Room';
+import { lonLatToScene, Room } from '@/components/Room';
 import PositionDisplay from '@/components/PositionDisplay';
+import GroundTrackLine from '@/components/GroundTrackLine';
 import { useIssPosition } from '@/contexts/IssPositionContext';
 
 
@@ -16,30 +17,27 @@ import { useIssPosition } from '@/contexts/IssPositionContext';
 export default function IssModel() {
     const [sliderValue, setSliderValue] = useState(0);
     const [angle, setAngle] = useState(0);
-    const {position, isLoading} = useIssPosition();
+    const {position, isLoading, groundTrack, sunlight, subsolarPoint} = useIssPosition();
     const [width, setWidth] = useState(2058/4);
     const [depth, setDepth] = useState(1036/4);
 
     const halfWidth = width / 2;
     const halfDepth = depth / 2;
 
+    // Same placement as the floor map, the ground track and the terminator
     const map_lon_to_x = () => {
         if (!position) return spherePosition.x;
-        // Map longitude (-180 to 180) to (-halfWidth to halfWidth)
-        const normalizedLon = (position.lon + 180) / 360; // 0 to 1
-        return (normalizedLon * width) - halfWidth;
+        return lonLatToScene(position.lon, position.lat, width, depth).x;
     };
 
+    // Note: "y" here is the scene's z axis, since +Y is up in 3D space
     const map_lat_to_y = () => {
         if (!position) return spherePosition.y;
-        // Map latitude (-90 to 90) to (halfDepth to -halfDepth)
-        // Note: We invert Y because in 3D space, +Y is up but on maps, +latitude is up
-        const normalizedLat = (90 - position.lat) / 180; // 0 to 1
-        return (normalizedLat * depth) - halfDepth;
+        return lonLatToScene(position.lon, position.lat, width, depth).z;
     };
     
     // Sphere position control
-    const [spherePosition, setSpherePosition] = useState({ x: 0, y: 0, z: 10 });
+    const [spherePosition, setSpherePosition] = useState({ x: halfWidth, y: -halfDepth, z: 10 });
 
     // Update sphere position when ISS position changes
     useEffect(() => {
@@ -108,13 +106,34 @@ export default function IssModel() {
                     <div>Mapped Y: {map_lat_to_y().toFixed(1)}</div>
                 </div>
             )}
+            {sunlight && (
+                <div className="mt-3 small">
+                    <span className={`badge ${sunlight.inShadow ? 'bg-secondary' : 'bg-warning text-dark'} mb-1`}>
+                        {sunlight.inShadow ? "In Earth's shadow" : 'In sunlight'}
+                    </span>
+                    {sunlight.nextSunrise && <div>Next sunrise: {new Date(sunlight.nextSunrise).toLocaleTimeString()}</div>}
+                    {sunlight.nextSunset && <div>Next sunset: {new Date(sunlight.nextSunset).toLocaleTimeString()}</div>}
+                    {!sunlight.nextSunrise && !sunlight.nextSunset && <div>Sunlit for the next two orbits</div>}
+                </div>
+            )}
+            {subsolarPoint && (
+                <div className="mt-2 small">
+                    Subsolar point: {subsolarPoint.lat.toFixed(1)}°, {subsolarPoint.lon.toFixed(1)}°
+                </div>
+            )}
+            {groundTrack && (
+                <div className="mt-3 small">
+                    <span style={{ color: '#ffd33d' }}>━</span> next 3 orbits{' '}
+                    <span style={{ color: '#bbbbbb' }}>┅</span> last 90 min
+                </div>
+            )}
             
             
         </div>
         
         {/* 3D Canvas */}
         <div style={{ height: '100vh', width: '100vw' }}>
-            <Canvas camera={{ position: [10, 450, 10], fov: 50 }}>
+            <Canvas camera={{ position: [halfWidth + 10, 450, -halfDepth + 10], fov: 50 }}>
                 {/* Room appropriate lighting */}
                 <ambientLight intensity={1.2} />
                 <pointLight position={[0, 6, 0]} intensity={0.8} />
@@ -122,7 +141,10 @@ export default function IssModel() {
                 <pointLight position={[-5, 4, 2]} intensity={0.5} color="#e5f2ff" />
                 
                 {/* Room environment */}
-                <Room width={width} depth={depth} />
+                <Room width={width} depth={depth} subsolarPoint={subsolarPoint} />
+
+                {/* Past 90 minutes and next 3 orbits, at the marker's height */}
+                <GroundTrackLine groundTrack={groundTrack} width={width} depth={depth} height={spherePosition.z} />
 
                 {/* ISS Sphere with controllable position */}
                 <mesh 
@@ -145,7 +167,7 @@ export default function IssModel() {
                 </mesh> 
                 
                 <OrbitControls 
-                    target={[0, 0, 0]}
+                    target={[halfWidth, 0, -halfDepth]}
                     minAzimuthAngle={-Math.PI / 20} 
                     maxAzimuthAngle={Math.PI / 700}
                 />
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import BluetoothConnectionInfo from '@/components/BluetoothConnectionInfo';
+import { PACKET_LOG_LIMIT, PacketLogEntry, useBluetooth } from '@/contexts/BluetoothContext';
+import { packetToHex, parseFrameAck, parsePong, parseProtocolAnnouncement, parseRobotPacket } from '@/utils/robotPackets';
+import { PING_COMMAND } from '@/utils/packetSchema';
+import { decodeRobotTelemetry } from '@/utils/robotTelemetry';
+
+type DirectionFilter = 'all' | 'sent' | 'received';
+
+// Human-readable summary of a packet's contents
+function describeEntry(entry: PacketLogEntry): string {
+  if (entry.direction === 'sent') {
+    if (entry.bytes[0] === PING_COMMAND) {
+      return `PING id=${entry.bytes[1] | (entry.bytes[2] << 8)}`;
+    }
+    try {
+      const parsed = parseRobotPacket(entry.bytes);
+      const angles = Object.values(parsed.angles).join(', ');
+      const frame = parsed.frame
+        ? ` seq=${parsed.frame.sequence} crc=${parsed.frame.crcValid ? 'ok' : 'BAD'}`
+        : '';
+      return `v${parsed.version} angles=[${angles}] buttons=[${parsed.buttons.byte0}, ${parsed.buttons.byte1}] ` +
+        `xy=(${parsed.coordinates.x}, ${parsed.coordinates.y})${frame}`;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Undecodable packet';
+    }
+  }
+
+  const view = new DataView(entry.bytes.buffer, entry.bytes.byteOffset, entry.bytes.byteLength);
+  const ack = parseFrameAck(view);
+  if (ack) {
+    return `ACK seq=${ack.lastSequence} accepted=${ack.accepted} rejected=${ack.rejected}`;
+  }
+  const pongId = parsePong(view);
+  if (pongId !== null) {
+    return `PONG id=${pongId}`;
+  }
+
+  const telemetry = decodeRobotTelemetry(view, entry.timestamp);
+  const version = parseProtocolAnnouncement(telemetry.text);
+  if (version !== null) {
+    return `Protocol announcement v${version}`;
+  }
+  const color = telemetry.color ? ` color=${telemetry.color}` : '';
+  const battery = telemetry.batteryVoltage !== null ? ` battery=${telemetry.batteryVoltage}V` : '';
+  return `Telemetry "${telemetry.text}"${color}${battery}`;
+}
+
+export default function PacketInspector() {
+  const { subscribePacketLog, getPacketLog, robots, queueStats, sendQueueSettings, setSendQueueSettings } = useBluetooth();
+  const [entries, setEntries] = useState<PacketLogEntry[]>([]);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [directionFilter, setDirectionFilter] = useState<DirectionFilter>('all');
+  const [textFilter, setTextFilter] = useState<string>('');
+
+  // Entries keep arriving while paused; the table just stops following them
+  const bufferRef = useRef<PacketLogEntry[]>([]);
+  const isPausedRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    // Start with whatever was sent before the inspector was opened
+    bufferRef.current = getPacketLog();
+    setEntries(bufferRef.current);
+
+    return subscribePacketLog(entry => {
+      bufferRef.current = [...bufferRef.current, entry].slice(-PACKET_LOG_LIMIT);
+      if (!isPausedRef.current) {
+        setEntries(bufferRef.current);
+      }
+    });
+  }, [subscribePacketLog, getPacketLog]);
+
+  const togglePause = () => {
+    isPausedRef.current = !isPausedRef.current;
+    setIsPaused(isPausedRef.current);
+    if (!isPausedRef.current) {
+      setEntries(bufferRef.current);
+    }
+  };
+
+  const clearLog = () => {
+    bufferRef.current = [];
+    setEntries([]);
+  };
+
+  const rows = useMemo(() => {
+    const needle = textFilter.trim().toLowerCase();
+    return entries
+      .map(entry => ({ entry, hex: packetToHex(entry.bytes), description: describeEntry(entry) }))
+      .filter(({ entry, hex, description }) =>
+        (directionFilter === 'all' || entry.direction === directionFilter) &&
+        (!needle || hex.includes(needle) || description.toLowerCase().includes(needle))
+      );
+  }, [entries, directionFilter, textFilter]);
+
+  // Removed robots keep their id in old entries
+  const robotName = (robotId: string) => robots.find(robot => robot.id === robotId)?.name ?? robotId;
+
+  const exportLog = () => {
+    const lines = rows.map(({ entry, hex, description }) => JSON.stringify({
+      timestamp: new Date(entry.timestamp).toISOString(),
+      robot: robotName(entry.robotId),
+      direction: entry.direction,
+      hex,
+      decoded: description,
+    }));
+    const blob = new Blob([lines.join('\n')], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `packet-log-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="container py-4">
+      <div className="card shadow">
+        <div className="card-header d-flex justify-content-between align-items-center">
+          <h5 className="card-title mb-0">Packet Inspector</h5>
+          <span className="badge bg-secondary">{rows.length} / {entries.length} packets</span>
+        </div>
+        <div className="card-body">
+          <div className="mb-3">
+            <BluetoothConnectionInfo />
+          </div>
+
+          <div className="d-flex flex-wrap gap-2 mb-3">
+            <select
+              className="form-select w-auto"
+              value={directionFilter}
+              onChange={(e) => setDirectionFilter(e.target.value as DirectionFilter)}
+            >
+              <option value="all">All packets</option>
+              <option value="sent">Sent only</option>
+              <option value="received">Received only</option>
+            </select>
+            <input
+              type="text"
+              className="form-control w-auto flex-grow-1"
+              placeholder="Filter by hex or decoded text"
+              value={textFilter}
+              onChange={(e) => setTextFilter(e.target.value)}
+            />
+            <button type="button" className="btn btn-primary" onClick={togglePause}>
+              {isPaused ? 'Resume' : 'Pause'}
+            </button>
+            <button type="button" className="btn btn-outline-secondary" onClick={clearLog}>
+              Clear
+            </button>
+            <button type="button" className="btn btn-outline-secondary" onClick={exportLog} disabled={rows.length === 0}>
+              Export
+            </button>
+          </div>
+
+          <div className="d-flex flex-wrap align-items-center gap-3 mb-3 small">
+            <label htmlFor="max-send-rate" className="mb-0">Max send rate</label>
+            <input
+              id="max-send-rate"
+              type="number"
+              className="form-control form-control-sm w-auto"
+              min="1"
+              max="100"
+              value={sendQueueSettings.maxPacketsPerSecond}
+              onChange={(e) => setSendQueueSettings({ ...sendQueueSettings, maxPacketsPerSecond: Math.max(1, Number(e.target.value)) })}
+            />
+            <span>packets/s</span>
+            <span className="font-monospace">
+              queue {queueStats.depth} · sent {queueStats.sent} · merged {queueStats.coalesced} · dropped {queueStats.dropped} · failed {queueStats.failed}
+            </span>
+          </div>
+
+          <div style={{ maxHeight: '65vh', overflowY: 'auto' }}>
+            <table className="table table-sm table-striped font-monospace small">
+              <thead className="sticky-top">
+                <tr>
+                  <th>Time</th>
+                  <th>Robot</th>
+                  <th>Dir</th>
+                  <th>Hex</th>
+                  <th>Decoded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice().reverse().map(({ entry, hex, description }) => (
+                  <tr key={entry.id}>
+                    <td className="text-nowrap">{new Date(entry.timestamp).toLocaleTimeString()}.{String(entry.timestamp % 1000).padStart(3, '0')}</td>
+                    <td className="text-nowrap">{robotName(entry.robotId)}</td>
+                    <td>{entry.direction === 'sent' ? 'TX' : 'RX'}</td>
+                    <td style={{ wordBreak: 'break-all' }}>{hex}</td>
+                    <td>{description}</td>
+                  </tr>
+                ))}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="text-center text-muted">
+                      No packets yet. Connect a robot and use any control page to send some; they are kept here for later.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+import * as satellite from 'satellite.js';
+import RobotTargetSelect from '@/components/RobotTargetSelect';
+import { RobotTarget, useRobotSender } from '@/contexts/BluetoothContext';
+import { useJointMapping } from '@/contexts/JointMappingContext';
+import { pointingJointAngles } from '@/utils/jointMapping';
+import { IssPass, lookAngles, MAX_PASS_PREDICTION_DAYS, Observer } from '@/utils/passPrediction';
+import { createRobotPacket } from '@/utils/robotPackets';
+
+const OBSERVER_STORAGE_KEY = 'issMimic.passObserver';
+
+const POINT_INTERVAL_MS = 1000;
+
+interface PassPredictionResponse {
+  generatedAt: string;
+  passes: IssPass[];
+  tle: { line1: string; line2: string; timestamp: string };
+}
+
+interface PointingState {
+  azimuth: number;
+  elevation: number;
+  // Waiting at the rise point, or following the ISS across the sky
+  phase: 'waiting' | 'tracking';
+}
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+const compass = (azimuth: number) => COMPASS_POINTS[Math.round(azimuth / 22.5) % 16];
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export default function PassesPage() {
+  const [observer, setObserver] = useState<Observer>({ latitude: 51.4779, longitude: -0.0015, altitude: 0 });
+  const [days, setDays] = useState<number>(3);
+  const [minElevation, setMinElevation] = useState<number>(10);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const [prediction, setPrediction] = useState<PassPredictionResponse | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [locating, setLocating] = useState<boolean>(false);
+  // The pass the robot is pointed at, and where it is pointing now
+  const [pointingPass, setPointingPass] = useState<IssPass | null>(null);
+  const [pointing, setPointing] = useState<PointingState | null>(null);
+  const [target, setTarget] = useState<RobotTarget>('all');
+
+  const { isConnected, sendPacket, packetVersionFor } = useRobotSender();
+  const { mapJoints } = useJointMapping();
+
+  // Read by the pointing timer; sending changes the robots, which would otherwise restart it
+  const sendRef = useRef({ isConnected, sendPacket, packetVersionFor, mapJoints, target, observer });
+  sendRef.current = { isConnected, sendPacket, packetVersionFor, mapJoints, target, observer };
+
+  // Load the saved observer once on the client
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(OBSERVER_STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        if (Number.isFinite(parsed.latitude) && Number.isFinite(parsed.longitude)) {
+          setObserver({
+            latitude: parsed.latitude,
+            longitude: parsed.longitude,
+            altitude: Number.isFinite(parsed.altitude) ? parsed.altitude : 0,
+          });
+        }
+      }
+    } catch (err) {
+      console.error('Failed to load observer location:', err);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Save whenever it changes (but not before the saved one was read)
+  useEffect(() => {
+    if (!isLoaded) return;
+    localStorage.setItem(OBSERVER_STORAGE_KEY, JSON.stringify(observer));
+  }, [observer, isLoaded]);
+
+  const fetchPasses = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        lat: String(observer.latitude),
+        lon: String(observer.longitude),
+        alt: String(observer.altitude),
+        days: String(days),
+        minElevation: String(minElevation),
+      });
+      const response = await fetch(`/api/iss-position/passes?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error ?? `HTTP ${response.status}`);
+      setPrediction(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [observer, days, minElevation]);
+
+  // Predict for the saved location once it has been read; after that only on request
+  useEffect(() => {
+    if (isLoaded) fetchPasses();
+  }, [isLoaded]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    fetchPasses();
+  };
+
+  const locateObserver = () => {
+    if (!navigator.geolocation) {
+      setError('This browser cannot share its location');
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setObserver({
+          latitude: Number(position.coords.latitude.toFixed(4)),
+          longitude: Number(position.coords.longitude.toFixed(4)),
+          altitude: Math.round(position.coords.altitude ?? 0),
+        });
+        setLocating(false);
+      },
+      (err) => {
+        setError(`Could not get your location: ${err.message}`);
+        setLocating(false);
+      }
+    );
+  };
+
+  // Holds the rise point until AOS, then follows the ISS until LOS
+  useEffect(() => {
+    if (!pointingPass || !prediction) {
+      setPointing(null);
+      return;
+    }
+    const satrec = satellite.twoline2satrec(prediction.tle.line1, prediction.tle.line2);
+    const pass = pointingPass;
+
+    const point = () => {
+      const now = Date.now();
+      if (now > new Date(pass.los.time).getTime()) {
+        setPointingPass(null);
+        return;
+      }
+
+      let next: PointingState;
+      if (now < new Date(pass.aos.time).getTime()) {
+        next = { azimuth: pass.aos.azimuth, elevation: 0, phase: 'waiting' };
+      } else {
+        const angles = lookAngles(satrec, sendRef.current.observer, new Date(now));
+        if (!angles) return;
+        next = { azimuth: angles.azimuth, elevation: angles.elevation, phase: 'tracking' };
+      }
+      setPointing(next);
+
+      const { isConnected, sendPacket, packetVersionFor, mapJoints, target } = sendRef.current;
+      if (isConnected) {
+        sendPacket(createRobotPacket({
+          angles: mapJoints(pointingJointAngles(next.azimuth, next.elevation)),
+          buttons: { byte0: 1 },
+          version: packetVersionFor(target),
+        }), target);
+      }
+    };
+
+    point();
+    const timer = setInterval(point, POINT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pointingPass, prediction]);
+
+  return (
+    <div className="container py-4">
+      <div className="card shadow mb-4">
+        <div className="card-header">
+          <h5 className="card-title mb-0">ISS Passes</h5>
+        </div>
+        <div className="card-body">
+          <form className="row g-2 align-items-end" onSubmit={handleSubmit}>
+            <div className="col-md-2">
+              <label htmlFor="observer-lat" className="form-label small mb-0">Latitude</label>
+              <input
+                id="observer-lat"
+                type="number"
+                className="form-control form-control-sm"
+                step="any"
+                min="-90"
+                max="90"
+                value={observer.latitude}
+                onChange={(e) => setObserver({ ...observer, latitude: Number(e.target.value) })}
+              />
+            </div>
+            <div className="col-md-2">
+              <label htmlFor="observer-lon" className="form-label small mb-0">Longitude</label>
+              <input
+                id="observer-lon"
+                type="number"
+                className="form-control form-control-sm"
+                step="any"
+                min="-180"
+                max="180"
+                value={observer.longitude}
+                onChange={(e) => setObserver({ ...observer, longitude: Number(e.target.value) })}
+              />
+            </div>
+            <div className="col-md-2">
+              <label htmlFor="observer-alt" className="form-label small mb-0">Altitude (m)</label>
+              <input
+                id="observer-alt"
+                type="number"
+                className="form-control form-control-sm"
+                step="any"
+                value={observer.altitude}
+                onChange={(e) => setObserver({ ...observer, altitude: Number(e.target.value) })}
+              />
+            </div>
+            <div className="col-md-2">
+              <label htmlFor="pass-days" className="form-label small mb-0">Days</label>
+              <input
+                id="pass-days"
+                type="number"
+                className="form-control form-control-sm"
+                min="1"
+                max={MAX_PASS_PREDICTION_DAYS}
+                value={days}
+                onChange={(e) => setDays(Math.min(MAX_PASS_PREDICTION_DAYS, Math.max(1, Number(e.target.value))))}
+              />
+            </div>
+            <div className="col-md-2">
+              <label htmlFor="pass-min-elevation" className="form-label small mb-0">Min elevation (°)</label>
+              <input
+                id="pass-min-elevation"
+                type="number"
+                className="form-control form-control-sm"
+                min="0"
+                max="90"
+                value={minElevation}
+                onChange={(e) => setMinElevation(Math.min(90, Math.max(0, Number(e.target.value))))}
+              />
+            </div>
+            <div className="col-md-2 d-flex gap-2">
+              <button type="submit" className="btn btn-primary btn-sm" disabled={loading}>
+                {loading ? 'Predicting...' : 'Predict'}
+              </button>
+              <button type="button" className="btn btn-outline-secondary btn-sm text-nowrap" onClick={locateObserver} disabled={locating}>
+                {locating ? 'Locating...' : 'My Location'}
+              </button>
+            </div>
+          </form>
+          {error && <div className="alert alert-danger mt-3 mb-0">{error}</div>}
+        </div>
+      </div>
+
+      <div className="card shadow mb-4">
+        <div className="card-header d-flex justify-content-between align-items-center gap-2 flex-wrap">
+          <h5 className="card-title mb-0">Point the Robot</h5>
+          <RobotTargetSelect value={target} onChange={setTarget} />
+        </div>
+        <div className="card-body">
+          <p className="text-muted small">
+            The robot waits facing where the ISS will rise, then follows it across the sky until it
+            sets. Both SARJs turn to the azimuth and every BGA tilts to the elevation, through the
+            joint mapping.
+          </p>
+          {pointingPass && pointing ? (
+            <div className="d-flex align-items-center gap-3 flex-wrap">
+              <span className={`badge ${pointing.phase === 'tracking' ? 'bg-success' : 'bg-secondary'}`}>
+                {pointing.phase === 'tracking' ? 'Tracking' : `Waiting for AOS at ${formatTime(pointingPass.aos.time)}`}
+              </span>
+              <span>Azimuth {pointing.azimuth.toFixed(1)}° ({compass(pointing.azimuth)})</span>
+              <span>Elevation {pointing.elevation.toFixed(1)}°</span>
+              {!isConnected && <span className="text-warning">No robot connected</span>}
+              <button type="button" className="btn btn-outline-danger btn-sm" onClick={() => setPointingPass(null)}>
+                Stop
+              </button>
+            </div>
+          ) : (
+            <p className="mb-0">Choose a pass below to point the robot at it.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="card shadow">
+        <div className="card-header">
+          <h5 className="card-title mb-0">Upcoming Passes</h5>
+        </div>
+        <div className="card-body">
+          {prediction && (
+            <p className="text-muted small">
+              Computed {new Date(prediction.generatedAt).toLocaleString()} from the TLE
+              of {new Date(prediction.tle.timestamp).toLocaleString()}. Visible passes have the ISS
+              sunlit while the Sun is more than 6° below your horizon.
+            </p>
+          )}
+          {!prediction || prediction.passes.length === 0 ? (
+            <p className="text-muted mb-0">{loading ? 'Predicting...' : 'No passes found.'}</p>
+          ) : (
+            <div className="table-responsive">
+              <table className="table table-sm align-middle mb-0">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Rises (AOS)</th>
+                    <th>Highest (TCA)</th>
+                    <th>Sets (LOS)</th>
+                    <th>Max El.</th>
+                    <th>Visible</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {prediction.passes.map(pass => (
+                    <tr key={pass.aos.time} className={pointingPass === pass ? 'table-active' : ''}>
+                      <td className="text-nowrap">{new Date(pass.aos.time).toLocaleDateString()}</td>
+                      <td className="text-nowrap">{formatTime(pass.aos.time)} {compass(pass.aos.azimuth)}</td>
+                      <td className="text-nowrap">{formatTime(pass.tca.time)} {compass(pass.tca.azimuth)}</td>
+                      <td className="text-nowrap">{formatTime(pass.los.time)} {compass(pass.los.azimuth)}</td>
+                      <td>{pass.maxElevation.toFixed(0)}°</td>
+                      <td className="text-nowrap">
+                        {pass.visible && pass.visibleStart && pass.visibleEnd ? (
+                          <span className="badge bg-success">
+                            {formatTime(pass.visibleStart)} - {formatTime(pass.visibleEnd)}
+                          </span>
+                        ) : (
+                          <span className="badge bg-secondary">No</span>
+                        )}
+                      </td>
+                      <td className="text-end">
+                        <button
+                          type="button"
+                          className="btn btn-outline-primary btn-sm text-nowrap"
+                          onClick={() => setPointingPass(pass)}
+                          disabled={pointingPass === pass}
+                        >
+                          Point Robot
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import BluetoothConnectionInfo from '@/components/BluetoothConnectionInfo';
+import { useBluetooth } from '@/contexts/BluetoothContext';
+import { SafetySettings } from '@/utils/safety';
+
+const BATTERY_BADGES = {
+  unknown: 'bg-secondary',
+  ok: 'bg-success',
+  warning: 'bg-warning text-dark',
+  critical: 'bg-danger',
+};
+
+export default function SafetyPage() {
+  const { robots, safetySettings, setSafetySettings, acknowledgeInterlock } = useBluetooth();
+
+  const updateSettings = (changes: Partial<SafetySettings>) => {
+    setSafetySettings({ ...safetySettings, ...changes });
+  };
+
+  return (
+    <div className="container py-4">
+      <div className="card shadow">
+        <div className="card-header">
+          <h5 className="card-title mb-0">Safety Interlocks</h5>
+        </div>
+        <div className="card-body">
+          <div className="mb-3">
+            <BluetoothConnectionInfo />
+          </div>
+          <p className="text-muted">
+            Below the warning voltage a banner is shown. Below the critical voltage, or when a
+            connected robot sends nothing for the timeout, the robot is sent a park pose (every
+            servo at 0°) and ignores motion commands until the interlock is acknowledged.
+            Robots whose firmware has no telemetry characteristic are never parked for
+            silence. Settings are saved in this browser.
+          </p>
+
+          <div className="form-check form-switch mb-3">
+            <input
+              id="safety-enabled"
+              className="form-check-input"
+              type="checkbox"
+              checked={safetySettings.enabled}
+              onChange={(e) => updateSettings({ enabled: e.target.checked })}
+            />
+            <label htmlFor="safety-enabled" className="form-check-label">Interlocks enabled</label>
+          </div>
+
+          <div className="row g-3 mb-4">
+            <div className="col-md-4">
+              <label htmlFor="warning-voltage" className="form-label">Warning voltage (V)</label>
+              <input
+                id="warning-voltage"
+                type="number"
+                className="form-control"
+                step="0.1"
+                value={safetySettings.warningVoltage}
+                onChange={(e) => updateSettings({ warningVoltage: Number(e.target.value) })}
+              />
+            </div>
+            <div className="col-md-4">
+              <label htmlFor="critical-voltage" className="form-label">Critical voltage (V)</label>
+              <input
+                id="critical-voltage"
+                type="number"
+                className="form-control"
+                step="0.1"
+                value={safetySettings.criticalVoltage}
+                onChange={(e) => updateSettings({ criticalVoltage: Number(e.target.value) })}
+              />
+            </div>
+            <div className="col-md-4">
+              <label htmlFor="telemetry-timeout" className="form-label">Telemetry timeout (s)</label>
+              <input
+                id="telemetry-timeout"
+                type="number"
+                className="form-control"
+                min="1"
+                value={safetySettings.telemetryTimeoutSeconds}
+                onChange={(e) => updateSettings({ telemetryTimeoutSeconds: Math.max(1, Number(e.target.value)) })}
+              />
+            </div>
+          </div>
+          {safetySettings.criticalVoltage >= safetySettings.warningVoltage && (
+            <div className="alert alert-warning">
+              The critical voltage should be below the warning voltage.
+            </div>
+          )}
+
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Robot</th>
+                <th>Link</th>
+                <th>Battery</th>
+                <th>Interlock</th>
+              </tr>
+            </thead>
+            <tbody>
+              {robots.map(robot => (
+                <tr key={robot.id}>
+                  <td>{robot.name}</td>
+                  <td>{robot.connectionStatus}</td>
+                  <td>
+                    <span className={`badge ${BATTERY_BADGES[robot.batteryLevel]}`}>{robot.batteryLevel}</span>{' '}
+                    {robot.telemetry?.batteryVoltage !== null && robot.telemetry?.batteryVoltage !== undefined && (
+                      <span>{robot.telemetry.batteryVoltage.toFixed(2)} V</span>
+                    )}
+                  </td>
+                  <td>
+                    {robot.interlock ? (
+                      <>
+                        <span className="text-danger me-2">{robot.interlock.message}</span>
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-outline-danger"
+                          onClick={() => acknowledgeInterlock(robot.id)}
+                        >
+                          Acknowledge
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-muted">None</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
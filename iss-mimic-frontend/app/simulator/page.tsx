@@ -0,0 +1,99 @@
+'use client';
+
+import { useState, useSyncExternalStore } from 'react';
+import BluetoothConnectionInfo from '@/components/BluetoothConnectionInfo';
+import SimulatedRobotView from '@/components/SimulatedRobotView';
+import { useBluetooth } from '@/contexts/BluetoothContext';
+import { virtualRobot } from '@/utils/simulator/virtualRobot';
+
+export default function SimulatorPage() {
+  const { transportKind, setTransportKind, activeRobot } = useBluetooth();
+  const state = useSyncExternalStore(virtualRobot.subscribe, virtualRobot.getState, virtualRobot.getState);
+  const [slewRate, setSlewRate] = useState<number>(virtualRobot.settings.slewRate);
+
+  const handleSlewRateChange = (value: number) => {
+    setSlewRate(value);
+    virtualRobot.settings.slewRate = value;
+  };
+
+  return (
+    <div className="container py-4">
+      <div className="card shadow">
+        <div className="card-header d-flex justify-content-between align-items-center">
+          <h5 className="card-title mb-0">Virtual XRP Robot</h5>
+          <span className={`badge ${state.connected ? 'bg-success' : 'bg-secondary'}`}>
+            {state.connected ? 'Connected' : 'Idle'}
+          </span>
+        </div>
+        <div className="card-body">
+          <div className="mb-3">
+            <BluetoothConnectionInfo />
+          </div>
+          {transportKind !== 'simulator' && (
+            <div className="alert alert-info d-flex justify-content-between align-items-center">
+              <span>Select the Simulator transport to drive this robot from the other pages.</span>
+              <button
+                type="button"
+                className="btn btn-primary btn-sm"
+                onClick={() => setTransportKind('simulator')}
+                disabled={activeRobot.isConnected}
+              >
+                Use Simulator
+              </button>
+            </div>
+          )}
+
+          <div className="row">
+            <div className="col-md-8">
+              <SimulatedRobotView height="400px" />
+            </div>
+            <div className="col-md-4">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>Servo</th>
+                    <th>Slot</th>
+                    <th>Target</th>
+                    <th>Position</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {state.servos.map(servo => (
+                    <tr key={servo.name}>
+                      <td className="font-monospace">{servo.name}</td>
+                      <td>angle{servo.slot}</td>
+                      <td>{servo.target.toFixed(1)}°</td>
+                      <td>{servo.position.toFixed(1)}°</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mb-1">Battery: {state.batteryVoltage.toFixed(2)} V</p>
+              <p className="mb-1">LED: {state.ledBlinking ? 'blinking' : 'off'}</p>
+              <p className="mb-1">
+                Frames: {state.framesAccepted} accepted, {state.framesRejected} rejected
+              </p>
+              <p className="mb-3">
+                Last packet: {state.lastPacket ? `v${state.lastPacket.version}` : 'none'}
+              </p>
+              <label htmlFor="slew-rate" className="form-label">Servo slew rate: {slewRate}°/s</label>
+              <input
+                id="slew-rate"
+                type="range"
+                className="form-range"
+                min="10"
+                max="600"
+                step="10"
+                value={slewRate}
+                onChange={(e) => handleSlewRateChange(Number(e.target.value))}
+              />
+              <button type="button" className="btn btn-outline-secondary btn-sm" onClick={virtualRobot.reset}>
+                Reset Servos and Battery
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { JSX, useEffect } from 'react';
+import Link from 'next/link';
+import { useAlerts } from '../contexts/AlertContext';
+import { AlertEvent, SEVERITY_CLASSES } from '../utils/alertRules';
+
+// Info alerts go away by themselves; warnings and critical ones wait to be dismissed
+const INFO_HIDE_AFTER_MS = 10000;
+
+function AlertToast({ event, onDismiss }: { event: AlertEvent; onDismiss: (id: string) => void }): JSX.Element {
+  useEffect(() => {
+    if (event.severity !== 'info') return;
+    const timer = setTimeout(() => onDismiss(event.id), INFO_HIDE_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [event.id, event.severity, onDismiss]);
+
+  return (
+    <div className="toast show" role="alert" aria-live="assertive" aria-atomic="true">
+      <div className="toast-header">
+        <span className={`badge ${SEVERITY_CLASSES[event.severity]} me-2 text-uppercase`}>{event.severity}</span>
+        <strong className="me-auto">{event.ruleName}</strong>
+        <small className="text-muted">{new Date(event.at).toLocaleTimeString()}</small>
+        <button type="button" className="btn-close ms-2" aria-label="Close" onClick={() => onDismiss(event.id)} />
+      </div>
+      <div className="toast-body">
+        {event.message}
+        <div className="mt-1">
+          <Link href="/alerts" className="small">Alert log</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Toasts for fired alert rules, on every page
+export default function AlertNotifications(): JSX.Element | null {
+  const { notifications, dismissNotification } = useAlerts();
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="toast-container position-fixed bottom-0 end-0 p-3">
+      {notifications.map(event => (
+        <AlertToast key={event.id} event={event} onDismiss={dismissNotification} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useAlerts } from '@/contexts/AlertContext';
+import {
+  AlertAction,
+  AlertCondition,
+  AlertRule,
+  AlertSeverity,
+  ComparisonOperator,
+  DEFAULT_REPLAY_URL,
+  describeCondition,
+  OPERATOR_LABELS,
+} from '@/utils/alertRules';
+import { LED_BUTTON } from '@/utils/packetSchema';
+import { SignalKind, SIGNAL_LABELS } from '@/utils/signalState';
+import { TELEMETRY_CATALOGUE } from '@/utils/telemetryCatalogue';
+
+const CONDITION_LABELS: Record<AlertCondition['type'], string> = {
+  threshold: 'Value',
+  rate: 'Rate of change',
+  unchanged: 'Unchanged for',
+  signal: 'Signal state',
+};
+
+const ACTION_LABELS: Record<AlertAction['type'], string> = {
+  none: 'Notify only',
+  flashLeds: 'Flash robot LEDs',
+  replay: 'Switch to replay',
+};
+
+// Keeps the item when switching between item conditions
+const conditionOfType = (type: AlertCondition['type'], previous: AlertCondition): AlertCondition => {
+  const itemId = 'itemId' in previous ? previous.itemId : TELEMETRY_CATALOGUE[0].id;
+  switch (type) {
+    case 'threshold':
+    case 'rate':
+      return { type, itemId, operator: '>', value: 'value' in previous ? previous.value : 0 };
+    case 'unchanged':
+      return { type, itemId, minutes: 20 };
+    case 'signal':
+      return { type, kind: 'los' };
+  }
+};
+
+const actionOfType = (type: AlertAction['type']): AlertAction => {
+  switch (type) {
+    case 'flashLeds':
+      return { type, button: LED_BUTTON, seconds: 5 };
+    case 'replay':
+      return { type, url: DEFAULT_REPLAY_URL };
+    default:
+      return { type: 'none' };
+  }
+};
+
+function ConditionFields({ condition, onChange }: {
+  condition: AlertCondition;
+  onChange: (condition: AlertCondition) => void;
+}) {
+  if (condition.type === 'signal') {
+    return (
+      <div className="col-md-4">
+        <label className="form-label small mb-0">State</label>
+        <select
+          className="form-select form-select-sm"
+          value={condition.kind}
+          onChange={(e) => onChange({ ...condition, kind: e.target.value as SignalKind })}
+        >
+          {(Object.keys(SIGNAL_LABELS) as SignalKind[]).map(kind => (
+            <option key={kind} value={kind}>{SIGNAL_LABELS[kind]}</option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="col-md-4">
+        <label className="form-label small mb-0">Item</label>
+        <select
+          className="form-select form-select-sm"
+          value={condition.itemId}
+          onChange={(e) => onChange({ ...condition, itemId: e.target.value })}
+        >
+          {TELEMETRY_CATALOGUE.map(item => (
+            <option key={item.id} value={item.id}>{item.name} ({item.id})</option>
+          ))}
+        </select>
+      </div>
+      {condition.type === 'unchanged' ? (
+        <div className="col-md-2">
+          <label className="form-label small mb-0">Minutes</label>
+          <input
+            type="number"
+            className="form-control form-control-sm"
+            min="1"
+            value={condition.minutes}
+            onChange={(e) => onChange({ ...condition, minutes: Math.max(1, Number(e.target.value)) })}
+          />
+        </div>
+      ) : (
+        <>
+          <div className="col-md-2">
+            <label className="form-label small mb-0">Is</label>
+            <select
+              className="form-select form-select-sm"
+              value={condition.operator}
+              onChange={(e) => onChange({ ...condition, operator: e.target.value as ComparisonOperator })}
+            >
+              {(Object.keys(OPERATOR_LABELS) as ComparisonOperator[]).map(operator => (
+                <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="col-md-2">
+            <label className="form-label small mb-0">{condition.type === 'rate' ? 'Per minute' : 'Value'}</label>
+            <input
+              type="number"
+              className="form-control form-control-sm"
+              step="any"
+              value={condition.value}
+              onChange={(e) => onChange({ ...condition, value: Number(e.target.value) })}
+            />
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+function ActionFields({ action, onChange }: { action: AlertAction; onChange: (action: AlertAction) => void }) {
+  if (action.type === 'flashLeds') {
+    return (
+      <>
+        <div className="col-md-2">
+          <label className="form-label small mb-0">Button bit</label>
+          <input
+            type="number"
+            className="form-control form-control-sm"
+            min="0"
+            max="15"
+            value={action.button}
+            onChange={(e) => onChange({ ...action, button: Math.min(15, Math.max(0, Math.round(Number(e.target.value)))) })}
+          />
+        </div>
+        <div className="col-md-2">
+          <label className="form-label small mb-0">Seconds</label>
+          <input
+            type="number"
+            className="form-control form-control-sm"
+            min="1"
+            value={action.seconds}
+            onChange={(e) => onChange({ ...action, seconds: Math.max(1, Number(e.target.value)) })}
+          />
+        </div>
+      </>
+    );
+  }
+  if (action.type === 'replay') {
+    return (
+      <div className="col-md-4">
+        <label className="form-label small mb-0">Recording URL</label>
+        <input
+          type="text"
+          className="form-control form-control-sm"
+          value={action.url}
+          onChange={(e) => onChange({ ...action, url: e.target.value })}
+        />
+      </div>
+    );
+  }
+  return null;
+}
+
+function RuleCard({ rule }: { rule: AlertRule }) {
+  const { updateRule, removeRule } = useAlerts();
+  const update = (changes: Partial<AlertRule>) => updateRule(rule.id, changes);
+
+  return (
+    <div className="card mb-3">
+      <div className="card-header d-flex align-items-center gap-2">
+        <div className="form-check form-switch mb-0">
+          <input
+            id={`rule-enabled-${rule.id}`}
+            className="form-check-input"
+            type="checkbox"
+            checked={rule.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            aria-label="Enabled"
+          />
+        </div>
+        <input
+          type="text"
+          className="form-control form-control-sm flex-grow-1"
+          value={rule.name}
+          onChange={(e) => update({ name: e.target.value })}
+          aria-label="Rule name"
+        />
+        <button type="button" className="btn btn-outline-danger btn-sm text-nowrap" onClick={() => removeRule(rule.id)}>
+          Delete
+        </button>
+      </div>
+      <div className="card-body">
+        <div className="row g-2 mb-2">
+          <div className="col-md-4">
+            <label className="form-label small mb-0">When</label>
+            <select
+              className="form-select form-select-sm"
+              value={rule.condition.type}
+              onChange={(e) => update({ condition: conditionOfType(e.target.value as AlertCondition['type'], rule.condition) })}
+            >
+              {(Object.keys(CONDITION_LABELS) as AlertCondition['type'][]).map(type => (
+                <option key={type} value={type}>{CONDITION_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <ConditionFields condition={rule.condition} onChange={(condition) => update({ condition })} />
+        </div>
+        <div className="row g-2 mb-2">
+          <div className="col-md-4">
+            <label className="form-label small mb-0">Then</label>
+            <select
+              className="form-select form-select-sm"
+              value={rule.action.type}
+              onChange={(e) => update({ action: actionOfType(e.target.value as AlertAction['type']) })}
+            >
+              {(Object.keys(ACTION_LABELS) as AlertAction['type'][]).map(type => (
+                <option key={type} value={type}>{ACTION_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <ActionFields action={rule.action} onChange={(action) => update({ action })} />
+        </div>
+        <div className="row g-2">
+          <div className="col-md-4">
+            <label className="form-label small mb-0">Severity</label>
+            <select
+              className="form-select form-select-sm"
+              value={rule.severity}
+              onChange={(e) => update({ severity: e.target.value as AlertSeverity })}
+            >
+              <option value="info">Info</option>
+              <option value="warning">Warning</option>
+              <option value="critical">Critical</option>
+            </select>
+          </div>
+          <div className="col-md-2">
+            <label className="form-label small mb-0">Cooldown (min)</label>
+            <input
+              type="number"
+              className="form-control form-control-sm"
+              min="0"
+              value={rule.cooldownMinutes}
+              onChange={(e) => update({ cooldownMinutes: Math.max(0, Number(e.target.value)) })}
+            />
+          </div>
+        </div>
+        <div className="form-text">{describeCondition(rule.condition)}</div>
+      </div>
+    </div>
+  );
+}
+
+// Editable list of alert rules
+export default function AlertRuleEditor() {
+  const { rules, addRule, resetRules } = useAlerts();
+
+  return (
+    <div>
+      {rules.length === 0 && <p className="text-muted">No rules.</p>}
+      {rules.map(rule => <RuleCard key={rule.id} rule={rule} />)}
+      <div className="d-flex gap-2">
+        <button type="button" className="btn btn-primary btn-sm" onClick={addRule}>
+          Add Rule
+        </button>
+        <button type="button" className="btn btn-outline-secondary btn-sm" onClick={resetRules}>
+          Reset to Default
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { JSX } from 'react';
+import { BatterySample } from '../utils/robotTelemetry';
+
+interface BatterySparklineProps {
+  history: BatterySample[];
+  color?: string;
+  width?: number;
+  height?: number;
+}
+
+// Tiny line chart of recent battery voltages, scaled to their own range
+export default function BatterySparkline({ history, color = '#4dae50', width = 100, height = 24 }: BatterySparklineProps): JSX.Element | null {
+  if (history.length < 2) return null;
+
+  const voltages = history.map(sample => sample.voltage);
+  const min = Math.min(...voltages);
+  const max = Math.max(...voltages);
+  // Keep a flat line in the middle rather than dividing by zero
+  const range = max - min || 1;
+  const start = history[0].timestamp;
+  const span = history[history.length - 1].timestamp - start || 1;
+
+  const points = history
+    .map(sample => {
+      const x = ((sample.timestamp - start) / span) * width;
+      const y = max === min ? height / 2 : height - ((sample.voltage - min) / range) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      <title>{`${min.toFixed(2)}–${max.toFixed(2)} V over ${Math.round(span / 1000)}s`}</title>
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+}
@@ -1,22 +1,65 @@
 "use client";
 
-import { JSX } from 'react';
+import { JSX, useEffect, useState } from 'react';
 import { useBluetooth } from '../contexts/BluetoothContext';
+import BatterySparkline from './BatterySparkline';
+import SafetyBanner from './SafetyBanner';
+import ConnectionDiagnostics from './ConnectionDiagnostics';
+import { isTransportKindSupported, TRANSPORT_KINDS, TransportKind } from '../utils/transports';
 import styles from './XrpRobotConnect.module.css';
 
 export default function XrpRobotConnect(): JSX.Element {
   const { 
-    isConnected, 
+    robots,
+    activeRobot,
+    setActiveRobotId,
+    addRobot,
+    removeRobot,
+    renameRobot,
+    isConnected: anyConnected,
     connecting, 
     connectionStatus, 
     statusColor, 
     telemetryData,
+    telemetry,
+    batteryHistory,
+    protocolCompatibility,
+    linkStats,
+    queueStats,
+    transportKind,
+    setTransportKind,
+    transportOptions,
+    setTransportOptions,
+    reconnectSettings,
+    setReconnectSettings,
+    reconnectState,
+    permittedDevices,
+    defaultRobotName,
+    setDefaultRobotName,
     connectToDevice, 
     disconnectFromDevice 
   } = useBluetooth();
+  const isConnected = activeRobot.isConnected;
+
+  // Browser support is only known on the client, so check after mounting
+  const [supportedKinds, setSupportedKinds] = useState<TransportKind[]>(TRANSPORT_KINDS.map(({ kind }) => kind));
+  useEffect(() => {
+    setSupportedKinds(TRANSPORT_KINDS.map(({ kind }) => kind).filter(isTransportKindSupported));
+  }, []);
+
+  const [showDiagnostics, setShowDiagnostics] = useState<boolean>(false);
+
+  // Tick once a second while a retry is pending so the countdown updates
+  const [now, setNow] = useState<number>(() => Date.now());
+  useEffect(() => {
+    if (!reconnectState?.nextRetryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [reconnectState]);
 
   const toggleConnection = (): void => {
-    if (isConnected) {
+    if (isConnected || reconnectState) {
       disconnectFromDevice();
     } else {
       connectToDevice();
@@ -24,23 +67,144 @@ export default function XrpRobotConnect(): JSX.Element {
   };
 
   return (
-    <div className={styles.xrpContainer}>
-      <button 
-        className={`${styles.connectButton} ${isConnected ? styles.connected : ''}`}
-        onClick={toggleConnection}
-        disabled={connecting}
-      >
-        {isConnected ? 'Connected' : 'Connect'}
-      </button>
-      <div 
-        className={styles.statusDisplay}
-        style={{ backgroundColor: statusColor }}
-      >
-        {connectionStatus}
+    <div className={styles.xrpPanel}>
+      <div className={styles.robotList}>
+        {robots.map(robot => (
+          <button
+            key={robot.id}
+            type="button"
+            className={`${styles.robotChip} ${robot.id === activeRobot.id ? styles.activeRobot : ''}`}
+            onClick={() => setActiveRobotId(robot.id)}
+            title={robot.connectionStatus}
+          >
+            <span className={styles.robotDot} style={{ backgroundColor: robot.isConnected ? robot.statusColor : '#999' }} />
+            {robot.name}
+          </button>
+        ))}
+        <button type="button" className={styles.robotChip} onClick={addRobot} title="Add another robot">
+          + Add
+        </button>
+        {anyConnected && (
+          <span className={styles.robotCount}>
+            {robots.filter(robot => robot.isConnected).length}/{robots.length} connected
+          </span>
+        )}
       </div>
-      <div className={styles.telemetryDisplay}>
-        {telemetryData}
+      <SafetyBanner />
+      <div className={styles.xrpContainer}>
+        <input
+          className={styles.robotName}
+          type="text"
+          value={activeRobot.name}
+          onChange={(e) => renameRobot(activeRobot.id, e.target.value)}
+          aria-label="Robot name"
+        />
+        <select
+          className={styles.transportSelect}
+          value={transportKind}
+          onChange={(e) => setTransportKind(e.target.value as TransportKind)}
+          disabled={isConnected || connecting}
+        >
+          {TRANSPORT_KINDS.map(({ kind, label }) => (
+            <option key={kind} value={kind} disabled={!supportedKinds.includes(kind)}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {transportKind === 'websocket' && (
+          <input
+            className={styles.transportInput}
+            type="text"
+            value={transportOptions.websocketUrl}
+            onChange={(e) => setTransportOptions({ ...transportOptions, websocketUrl: e.target.value })}
+            disabled={isConnected || connecting}
+          />
+        )}
+        {transportKind === 'bluetooth' && permittedDevices.length > 0 && (
+          <select
+            className={styles.transportSelect}
+            value={defaultRobotName ?? ''}
+            onChange={(e) => setDefaultRobotName(e.target.value || null)}
+            title="Reconnected automatically when the page loads"
+          >
+            <option value="">No default robot</option>
+            {permittedDevices.map(name => (
+              <option key={name} value={name}>Default: {name}</option>
+            ))}
+          </select>
+        )}
+        <button 
+          className={`${styles.connectButton} ${isConnected ? styles.connected : ''}`}
+          onClick={toggleConnection}
+          disabled={connecting}
+        >
+          {isConnected ? 'Connected' : reconnectState ? 'Cancel' : 'Connect'}
+        </button>
+        <div 
+          className={styles.statusDisplay}
+          style={{ backgroundColor: statusColor }}
+        >
+          {connectionStatus}
+          {reconnectState?.nextRetryAt && (
+            <> in {Math.max(0, Math.ceil((reconnectState.nextRetryAt - now) / 1000))}s</>
+          )}
+        </div>
+        <label className={styles.reconnectToggle}>
+          <input
+            type="checkbox"
+            checked={reconnectSettings.enabled}
+            onChange={(e) => setReconnectSettings({ ...reconnectSettings, enabled: e.target.checked })}
+          />
+          Auto-reconnect
+        </label>
+        <div
+          className={styles.telemetryDisplay}
+          style={telemetry?.color ? { color: telemetry.color } : undefined}
+        >
+          {telemetryData}
+          <BatterySparkline history={batteryHistory} color={telemetry?.color ?? undefined} />
+        </div>
+        {isConnected && linkStats.linkQuality !== null && (
+          <div
+            className={styles.linkQuality}
+            title={`${linkStats.framesAcknowledged} acknowledged, ${linkStats.framesRejected} rejected, ${linkStats.framesSent} sent`}
+          >
+            Link {Math.round(linkStats.linkQuality * 100)}%
+          </div>
+        )}
+        {isConnected && (queueStats.depth > 0 || queueStats.dropped > 0 || queueStats.failed > 0) && (
+          <div
+            className={styles.linkQuality}
+            title={`${queueStats.sent} sent, ${queueStats.coalesced} merged, ${queueStats.dropped} dropped, ${queueStats.failed} failed`}
+          >
+            Queue {queueStats.depth}{queueStats.dropped + queueStats.failed > 0 && ` (${queueStats.dropped + queueStats.failed} lost)`}
+          </div>
+        )}
+        {isConnected && !protocolCompatibility.compatible && (
+          <div className={styles.protocolWarning}>
+            {protocolCompatibility.message}
+          </div>
+        )}
+          <button
+          type="button"
+          className={styles.diagnosticsToggle}
+          onClick={() => setShowDiagnostics(!showDiagnostics)}
+        >
+          {showDiagnostics ? 'Hide Diagnostics' : 'Diagnostics'}
+        </button>
+        {robots.length > 1 && (
+          <button
+            type="button"
+            className={styles.removeRobot}
+            onClick={() => removeRobot(activeRobot.id)}
+            disabled={connecting}
+            title="Disconnect and remove this robot"
+          >
+            Remove
+          </button>
+        )}
       </div>
+      {showDiagnostics && <ConnectionDiagnostics robot={activeRobot} />}
     </div>
   );
 }
\ No newline at end of file
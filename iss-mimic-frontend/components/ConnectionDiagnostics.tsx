@@ -0,0 +1,93 @@
+"use client";
+
+import { JSX, useEffect, useRef, useState } from 'react';
+import { RobotConnection } from '../contexts/BluetoothContext';
+import { PING_MIN_VERSION } from '../utils/packetSchema';
+import styles from './XrpRobotConnect.module.css';
+
+// Formats a duration in ms as h:mm:ss
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+// One-line reading of the numbers, to tell a bad link from quiet firmware
+function assessLink(robot: RobotConnection, silentMs: number | null): string {
+  if (!robot.isConnected) return 'Not connected';
+  const answersPings = (robot.robotProtocolVersion ?? 0) >= PING_MIN_VERSION;
+  if (answersPings && robot.latency.pingsSent > 2 && robot.latency.lost >= robot.latency.pingsSent - 1) {
+    return 'Pings are not coming back: the link is probably down';
+  }
+  if (robot.queueStats.failed > 0 && robot.queueStats.failed >= robot.queueStats.sent) {
+    return 'Every write is failing: check the transport';
+  }
+  if (silentMs !== null && silentMs > 5000) {
+    return answersPings && robot.latency.lastMs !== null
+      ? 'Link answers pings but the firmware has stopped sending telemetry'
+      : 'Nothing received for a while: link or firmware problem';
+  }
+  return 'Link looks healthy';
+}
+
+// Live numbers for one robot's link: uptime, throughput, failures, silence and latency
+export default function ConnectionDiagnostics({ robot }: { robot: RobotConnection }): JSX.Element {
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [packetsPerSecond, setPacketsPerSecond] = useState<number>(0);
+  const lastSampleRef = useRef<{ at: number; sent: number } | null>(null);
+  const sentRef = useRef<number>(robot.queueStats.sent);
+  sentRef.current = robot.queueStats.sent;
+
+  // Sample the sent counter once a second for the rate
+  useEffect(() => {
+    lastSampleRef.current = null;
+    const timer = setInterval(() => {
+      const at = Date.now();
+      const sent = sentRef.current;
+      const last = lastSampleRef.current;
+      if (last && sent >= last.sent) {
+        setPacketsPerSecond((sent - last.sent) / ((at - last.at) / 1000));
+      }
+      lastSampleRef.current = { at, sent };
+      setNow(at);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [robot.id, robot.connectedAt]);
+
+  const silentMs = robot.lastNotificationAt !== null ? now - robot.lastNotificationAt : null;
+  const { latency, queueStats, linkStats } = robot;
+
+  const rows: [string, string][] = [
+    ['Connected for', robot.connectedAt !== null ? formatDuration(now - robot.connectedAt) : '-'],
+    ['Packets sent', `${queueStats.sent} (${packetsPerSecond.toFixed(1)}/s)`],
+    ['Write failures', String(queueStats.failed)],
+    ['Merged / dropped', `${queueStats.coalesced} / ${queueStats.dropped}`],
+    ['Last telemetry', silentMs !== null ? `${(silentMs / 1000).toFixed(1)}s ago` : 'never'],
+    ['Link quality', linkStats.linkQuality !== null ? `${Math.round(linkStats.linkQuality * 100)}%` : '-'],
+    ['Protocol', robot.robotProtocolVersion !== null ? `v${robot.robotProtocolVersion}` : 'not announced'],
+    ['Round trip', (robot.robotProtocolVersion ?? 0) < PING_MIN_VERSION
+      ? `needs protocol v${PING_MIN_VERSION}`
+      : latency.lastMs !== null
+        ? `${latency.lastMs} ms (avg ${Math.round(latency.averageMs ?? latency.lastMs)} ms)`
+        : 'waiting'],
+    ['Pings lost', `${latency.lost} of ${latency.pingsSent}`],
+  ];
+
+  return (
+    <div className={styles.diagnostics}>
+      <table>
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <th>{label}</th>
+              <td>{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className={styles.diagnosticsSummary}>{assessLink(robot, silentMs)}</div>
+    </div>
+  );
+}
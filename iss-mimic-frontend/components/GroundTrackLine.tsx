@@ -0,0 +1,35 @@
+'use client';
+
+import { Line } from '@react-three/drei';
+import { GroundTrack, GroundTrackSegment } from '@/utils/groundTrack';
+import { lonLatToScene } from './Room';
+
+interface GroundTrackLineProps {
+  groundTrack: GroundTrack | null;
+  // Size of the Room floor map it is drawn over
+  width: number;
+  depth: number;
+  // Scene height to draw at
+  height: number;
+}
+
+// Ground track laid over the map floor: where the ISS has been (grey) and where it is going (yellow)
+export default function GroundTrackLine({ groundTrack, width, depth, height }: GroundTrackLineProps) {
+  if (!groundTrack) return null;
+
+  const toScene = (segment: GroundTrackSegment): [number, number, number][] => segment.map(point => {
+    const { x, z } = lonLatToScene(point.lon, point.lat, width, depth);
+    return [x, height, z];
+  });
+
+  return (
+    <group>
+      {groundTrack.past.map((segment, i) => segment.length > 1 && (
+        <Line key={`past-${i}`} points={toScene(segment)} color="#bbbbbb" lineWidth={2} dashed dashSize={4} gapSize={3} />
+      ))}
+      {groundTrack.future.map((segment, i) => segment.length > 1 && (
+        <Line key={`future-${i}`} points={toScene(segment)} color="#ffd33d" lineWidth={2} />
+      ))}
+    </group>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { JSX } from 'react';
+import { useIssPosition } from '@/contexts/IssPositionContext';
+import { GroundTrackSegment } from '@/utils/groundTrack';
+
+// Equirectangular view box: one unit per degree
+const WIDTH = 360;
+const HEIGHT = 180;
+
+const toPoints = (segment: GroundTrackSegment): string =>
+  segment.map(point => `${(point.lon + 180).toFixed(2)},${(90 - point.lat).toFixed(2)}`).join(' ');
+
+// Small world map with the ISS ground track and current position
+export default function GroundTrackMap({ className = "" }: { className?: string }): JSX.Element {
+  const { position, groundTrack } = useIssPosition();
+
+  return (
+    <svg
+      className={className}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      style={{ width: '100%', display: 'block' }}
+      role="img"
+      aria-label="ISS ground track"
+    >
+      <image href="/Equirectangular_Earth.jpg" x={0} y={0} width={WIDTH} height={HEIGHT} preserveAspectRatio="none" />
+      {groundTrack?.past.map((segment, i) => (
+        <polyline key={`past-${i}`} points={toPoints(segment)} fill="none" stroke="#dddddd" strokeWidth={1} strokeDasharray="3 2" />
+      ))}
+      {groundTrack?.future.map((segment, i) => (
+        <polyline key={`future-${i}`} points={toPoints(segment)} fill="none" stroke="#ffd33d" strokeWidth={1} />
+      ))}
+      {position && (
+        <circle cx={position.lon + 180} cy={90 - position.lat} r={3} fill="#dc3545" stroke="white" strokeWidth={1} />
+      )}
+    </svg>
+  );
+}
@@ -1,21 +1,65 @@
 'use client';
 
-import { useTelemetry, TELEMETRY_ITEMS } from '../contexts/TelemetryContext';
+import { useState } from 'react';
+import { useTelemetry, useTelemetryValue } from '../contexts/TelemetryContext';
 import PositionDisplay from './PositionDisplay';
+import TelemetryChart from './TelemetryChart';
+import TelemetryReplayControls from './TelemetryReplayControls';
+import SignalStatusBadge from './SignalStatusBadge';
 import { useIssPosition } from '@/contexts/IssPositionContext';
+import { TELEMETRY_CATALOGUE, TELEMETRY_GROUPS, TelemetryDefinition } from '@/utils/telemetryCatalogue';
+import { ISS_JOINTS } from '@/utils/jointMapping';
+
+// Items the robot's joints follow
+const JOINT_TELEMETRY_IDS: string[] = ISS_JOINTS.map(joint => joint.telemetryId);
+
+// One item's card; renders on its own when the item changes
+function TelemetryCard({ item }: { item: TelemetryDefinition }) {
+  const telemetry = useTelemetryValue(item.id);
+  return (
+    <div className="col">
+      <div className="card h-100 bg-light">
+        <div className="card-body">
+          <h5 className="card-title" style={{ color: "black" }}>
+            {item.name}
+            {JOINT_TELEMETRY_IDS.includes(item.id) && (
+              <span className="badge bg-info ms-2 small">Robot</span>
+            )}
+          </h5>
+          <p className="display-6 text-center text-mono" style={{ color: "black" }}>
+            {telemetry?.displayValue || "Loading..."}
+            {telemetry && item.unit && <small className="ms-1">{item.unit}</small>}
+          </p>
+          <p className="card-text text-muted small text-center">
+            Timestamp: {telemetry?.timestamp || "Loading..."}
+            {telemetry?.lastKnown && <span className="badge bg-warning text-dark ms-2">Last known</span>}
+          </p>
+          {(item.valueType === 'angle' || item.valueType === 'float') && (
+            <TelemetryChart itemId={item.id} unit={item.unit} precision={item.precision} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
 
 export default function ISSDataExtended() {
   // Use the telemetry context instead of managing state internally
-  const { telemetryItems, signalStatus, signalClass } = useTelemetry();
+  const { sourceLabel, enabledIds, setItemEnabled, resetEnabledItems } = useTelemetry();
   const {position, isLoading} = useIssPosition();
+  const [showItemPicker, setShowItemPicker] = useState<boolean>(false);
 
   return (
     <div className="card shadow">
       <div className="card-header d-flex justify-content-between align-items-center">
         <h5 className="card-title mb-0">ISS Telemetry Data</h5>
-        <span className={`badge ${signalClass} text-white`}>
-          {signalStatus}
-        </span>
+        <div>
+          {/* Flag anything that isn't the real station */}
+          {sourceLabel && sourceLabel !== 'ISSLIVE' && (
+            <span className="badge bg-secondary text-white me-2">{sourceLabel}</span>
+          )}
+          <SignalStatusBadge />
+        </div>
       </div>
       
       <div className="card-body">
@@ -47,28 +91,67 @@ export default function ISSDataExtended() {
           </div>
         </div>
 
-        {/* Telemetry Data Cards */}
-        <div className="row row-cols-1 row-cols-md-2 g-4">
-          {TELEMETRY_ITEMS.map(item => {
-            const telemetry = telemetryItems[item.id];
-            return (
-              <div key={item.id} className="col">
-                <div className="card h-100 bg-light">
-                  <div className="card-body">
-                    <h5 className="card-title" style={{ color: "black" }}>{item.name}</h5>
-                    <p className="display-6 text-center text-mono" style={{ color: "black" }}>
-                      {telemetry?.value || "Loading..."}
-                      {telemetry?.unit && <small className="ms-1">{telemetry.unit}</small>}
-                    </p>
-                    <p className="card-text text-muted small text-center">
-                      Timestamp: {telemetry?.timestamp || "Loading..."}
-                    </p>
+        {/* Recording, replay and item selection */}
+        <div className="d-flex justify-content-between align-items-start gap-3 mb-3">
+          <TelemetryReplayControls className="flex-grow-1" />
+          <button
+            type="button"
+            className="btn btn-outline-secondary btn-sm"
+            onClick={() => setShowItemPicker(!showItemPicker)}
+          >
+            {showItemPicker ? 'Hide Item List' : `Choose Items (${enabledIds.length}/${TELEMETRY_CATALOGUE.length})`}
+          </button>
+        </div>
+
+        {showItemPicker && (
+          <div className="card mb-4">
+            <div className="card-body">
+              <div className="row">
+                {TELEMETRY_GROUPS.map(group => (
+                  <div key={group.id} className="col-md-4 mb-3">
+                    <h6>{group.name}</h6>
+                    {TELEMETRY_CATALOGUE.filter(item => item.group === group.id).map(item => (
+                      <div key={item.id} className="form-check">
+                        <input
+                          id={`telemetry-${item.id}`}
+                          type="checkbox"
+                          className="form-check-input"
+                          checked={enabledIds.includes(item.id)}
+                          onChange={(e) => setItemEnabled(item.id, e.target.checked)}
+                        />
+                        <label htmlFor={`telemetry-${item.id}`} className="form-check-label">
+                          {item.name} <span className="text-muted small font-monospace">{item.id}</span>
+                        </label>
+                      </div>
+                    ))}
                   </div>
-                </div>
+                ))}
               </div>
-            );
-          })}
-        </div>
+              <button type="button" className="btn btn-link btn-sm p-0" onClick={resetEnabledItems}>
+                Restore defaults
+              </button>
+              {JOINT_TELEMETRY_IDS.some(id => !enabledIds.includes(id)) && (
+                <p className="text-warning small mb-0 mt-2">
+                  Some joint items are off; the robot holds those joints at 0°.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Telemetry Data Cards, one section per subsystem */}
+        {TELEMETRY_GROUPS.map(group => {
+          const items = TELEMETRY_CATALOGUE.filter(item => item.group === group.id && enabledIds.includes(item.id));
+          if (items.length === 0) return null;
+          return (
+            <div key={group.id} className="mb-4">
+              <h5>{group.name}</h5>
+              <div className="row row-cols-1 row-cols-md-2 g-4">
+                {items.map(item => <TelemetryCard key={item.id} item={item} />)}
+              </div>
+            </div>
+          );
+        })}
       </div>
 
       <div className="card-footer text-center text-white small" style={{ color: "white" }}>
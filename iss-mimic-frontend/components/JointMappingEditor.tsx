@@ -0,0 +1,86 @@
+'use client';
+
+import { useJointMapping } from '@/contexts/JointMappingContext';
+import { ISS_JOINTS, IssJointId } from '@/utils/jointMapping';
+
+// A cleared or half-typed field (e.g. "-") keeps the previous value instead of becoming 0
+const parseNumberInput = (text: string): number | null => {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+// Table for choosing which ISS joint drives each packet angle slot
+export default function JointMappingEditor() {
+  const { mapping, updateChannel, resetMapping } = useJointMapping();
+
+  const updateNumber = (slot: number, key: 'offset' | 'scale', text: string) => {
+    const value = parseNumberInput(text);
+    if (value === null) return;
+    updateChannel(slot, key === 'offset' ? { offset: value } : { scale: value });
+  };
+
+  return (
+    <div>
+      <table className="table table-sm align-middle">
+        <thead>
+          <tr>
+            <th>Slot</th>
+            <th>ISS Joint</th>
+            <th>Invert</th>
+            <th>Offset [°]</th>
+            <th>Scale</th>
+          </tr>
+        </thead>
+        <tbody>
+          {mapping.map((entry, slot) => (
+            <tr key={slot}>
+              <td className="font-monospace">angle{slot}</td>
+              <td>
+                <select
+                  className="form-select form-select-sm"
+                  value={entry.joint ?? ''}
+                  onChange={(e) => updateChannel(slot, { joint: e.target.value ? e.target.value as IssJointId : null })}
+                >
+                  <option value="">Unused</option>
+                  {ISS_JOINTS.map(joint => (
+                    <option key={joint.id} value={joint.id}>{joint.name}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <input
+                  type="checkbox"
+                  className="form-check-input"
+                  checked={entry.invert}
+                  onChange={(e) => updateChannel(slot, { invert: e.target.checked })}
+                />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  className="form-control form-control-sm"
+                  step="0.1"
+                  value={entry.offset}
+                  onChange={(e) => updateNumber(slot, 'offset', e.target.value)}
+                />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  className="form-control form-control-sm"
+                  step="0.01"
+                  value={entry.scale}
+                  onChange={(e) => updateNumber(slot, 'scale', e.target.value)}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button type="button" className="btn btn-outline-secondary btn-sm" onClick={resetMapping}>
+        Reset to Default
+      </button>
+    </div>
+  );
+}
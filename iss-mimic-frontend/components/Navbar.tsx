@@ -58,6 +58,36 @@ export default function Navbar() {
                 Map (Live)
               </Link>
             </li>
+            <li className="nav-item">
+              <Link href="/passes" className={`nav-link ${pathname === '/passes' ? 'active' : ''}`}>
+                Passes
+              </Link>
+            </li>
+            <li className="nav-item">
+              <Link href="/joint-mapping" className={`nav-link ${pathname === '/joint-mapping' ? 'active' : ''}`}>
+                Joint Mapping
+              </Link>
+            </li>
+            <li className="nav-item">
+              <Link href="/packet-inspector" className={`nav-link ${pathname === '/packet-inspector' ? 'active' : ''}`}>
+                Packet Inspector
+              </Link>
+            </li>
+            <li className="nav-item">
+              <Link href="/simulator" className={`nav-link ${pathname === '/simulator' ? 'active' : ''}`}>
+                Simulator
+              </Link>
+            </li>
+            <li className="nav-item">
+              <Link href="/safety" className={`nav-link ${pathname === '/safety' ? 'active' : ''}`}>
+                Safety
+              </Link>
+            </li>
+            <li className="nav-item">
+              <Link href="/alerts" className={`nav-link ${pathname === '/alerts' ? 'active' : ''}`}>
+                Alerts
+              </Link>
+            </li>
             {/*
             <li className="nav-item">
               <Link href="/about" className={`nav-link ${pathname === '/about' ? 'active' : ''}`}>
@@ -0,0 +1,40 @@
+"use client";
+
+import { JSX, useEffect } from 'react';
+import { RobotTarget, useBluetooth } from '../contexts/BluetoothContext';
+
+interface RobotTargetSelectProps {
+  value: RobotTarget;
+  onChange: (target: RobotTarget) => void;
+}
+
+// Picks which robot a page's packets go to, or all of them
+export default function RobotTargetSelect({ value, onChange }: RobotTargetSelectProps): JSX.Element {
+  const { robots } = useBluetooth();
+
+  // Fall back to broadcasting if the chosen robot is removed
+  useEffect(() => {
+    if (value !== 'all' && !robots.some(robot => robot.id === value)) {
+      onChange('all');
+    }
+  }, [value, robots, onChange]);
+
+  return (
+    <div className="d-flex align-items-center gap-2">
+      <label htmlFor="robot-target" className="form-label mb-0 text-nowrap">Send to</label>
+      <select
+        id="robot-target"
+        className="form-select form-select-sm"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        <option value="all">All robots ({robots.filter(robot => robot.isConnected).length} connected)</option>
+        {robots.map(robot => (
+          <option key={robot.id} value={robot.id}>
+            {robot.name}{robot.isConnected ? '' : ' (not connected)'}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
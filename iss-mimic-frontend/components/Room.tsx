@@ -3,9 +3,28 @@
 import { useTexture } from "@react-three/drei";
 import { useEffect } from "react";
 import * as THREE from 'three';
+import TerminatorOverlay from './TerminatorOverlay';
+import { SubsolarPoint } from '@/utils/solar';
+
+/**
+ * Where a longitude and latitude fall on the Room's floor map, which spans
+ * x 0 to width (west to east) and z -depth to 0 (north to south)
+ */
+export function lonLatToScene(lon: number, lat: number, width: number, depth: number): { x: number; z: number } {
+  return {
+    x: ((lon + 180) / 360) * width,
+    z: ((90 - lat) / 180) * depth - depth,
+  };
+}
 
 // Room component with consistent dimensions
-export function Room({earthImage = '/Equirectangular_Earth.jpg', width = 2058/5, depth = 1036/5}) {
+export function Room({earthImage = '/Equirectangular_Earth.jpg', width = 2058/5, depth = 1036/5, subsolarPoint = null}: {
+  earthImage?: string;
+  width?: number;
+  depth?: number;
+  // Shades the night side of the floor map when given
+  subsolarPoint?: SubsolarPoint | null;
+}) {
   //console.log("Room dimensions:", width, depth);  
   // Load the earth texture
   const texture = useTexture(earthImage);
@@ -49,8 +68,16 @@ export function Room({earthImage = '/Equirectangular_Earth.jpg', width = 2058/5,
           color="#ffffff" // Use white so the texture shows true colors
         />
       </mesh>
-      
-      
+
+      {/* Day/night terminator, just above the floor */}
+      {subsolarPoint && (
+        <TerminatorOverlay
+          subsolarPoint={subsolarPoint}
+          width={width}
+          depth={depth}
+          position={[halfWidth, floorY + 0.05, -halfDepth]}
+        />
+      )}
     </group>
   );
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+"use client";
+
+import { JSX } from 'react';
+import { useBluetooth } from '../contexts/BluetoothContext';
+
+// Low-battery warnings and engaged interlocks for every robot, with the acknowledge button
+export default function SafetyBanner(): JSX.Element | null {
+  const { robots, acknowledgeInterlock } = useBluetooth();
+
+  const alerts = robots.filter(robot => robot.interlock || (robot.isConnected && robot.batteryLevel === 'warning'));
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="d-flex flex-column gap-1">
+      {alerts.map(robot => robot.interlock ? (
+        <div key={robot.id} className="alert alert-danger d-flex justify-content-between align-items-center gap-2 py-1 px-2 mb-0">
+          <span>
+            <strong>{robot.name}:</strong> {robot.interlock.message} Motion commands are blocked.
+          </span>
+          <button
+            type="button"
+            className="btn btn-sm btn-danger text-nowrap"
+            onClick={() => acknowledgeInterlock(robot.id)}
+          >
+            Acknowledge
+          </button>
+        </div>
+      ) : (
+        <div key={robot.id} className="alert alert-warning py-1 px-2 mb-0">
+          <strong>{robot.name}:</strong> Battery low ({robot.telemetry?.text.trim()}). Charge or swap it soon.
+        </div>
+      ))}
+    </div>
+  );
+}
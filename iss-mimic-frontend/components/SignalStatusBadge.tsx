@@ -0,0 +1,42 @@
+"use client";
+
+import { JSX, useEffect, useState } from 'react';
+import { useSignal } from '../contexts/TelemetryContext';
+import { SIGNAL_CLASSES, SIGNAL_LABELS } from '../utils/signalState';
+
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+// Signal state badge with how long it has lasted, e.g. "Loss of Signal · 4m 12s"
+export default function SignalStatusBadge({ className = "" }: { className?: string }): JSX.Element {
+  const signal = useSignal();
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  // The signal only changes on transitions, so tick the elapsed time here
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  let detail = '';
+  if (signal.kind === 'los') {
+    detail = formatElapsed(now - signal.since);
+  } else if (signal.kind === 'stale' && signal.lastAosAt !== null) {
+    detail = `last data ${formatElapsed(now - signal.lastAosAt)} ago`;
+  } else if (signal.kind === 'aos' && signal.losAt !== null) {
+    detail = `LOS ended ${formatElapsed(now - signal.since)} ago`;
+  }
+
+  const title = signal.losAt !== null ? `Last LOS began ${new Date(signal.losAt).toLocaleTimeString()}` : undefined;
+
+  return (
+    <span className={`badge ${SIGNAL_CLASSES[signal.kind]} text-white ${className}`} title={title}>
+      {SIGNAL_LABELS[signal.kind]}
+      {detail && <span className="fw-normal ms-1">· {detail}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { virtualRobot, VirtualServo } from '@/utils/simulator/virtualRobot';
+
+const SERVO_COLORS = ['red', 'orange', 'green', 'purple'];
+
+// One servo body with its horn rotated to the current position
+function ServoModel({ servo, x, color }: { servo: VirtualServo; x: number; color: string }) {
+  return (
+    <group position={[x, 0, 0]}>
+      <mesh>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshStandardMaterial color="#333333" />
+      </mesh>
+      <mesh position={[0, 0.55, 0]} rotation={[0, servo.position * (Math.PI / 180), 0]}>
+        <mesh position={[0.6, 0, 0]}>
+          <boxGeometry args={[1.4, 0.1, 0.3]} />
+          <meshStandardMaterial color={color} />
+        </mesh>
+      </mesh>
+    </group>
+  );
+}
+
+// Small 3D view of the virtual robot's servos
+export default function SimulatedRobotView({ height = '300px' }: { height?: string }) {
+  const state = useSyncExternalStore(virtualRobot.subscribe, virtualRobot.getState, virtualRobot.getState);
+
+  return (
+    <div style={{ height }}>
+      <Canvas camera={{ position: [0, 5, 6], fov: 50 }}>
+        <ambientLight intensity={0.6} />
+        <directionalLight position={[5, 10, 5]} intensity={1} />
+        {state.servos.map((servo, index) => (
+          <ServoModel
+            key={servo.name}
+            servo={servo}
+            x={(index - (state.servos.length - 1) / 2) * 2.5}
+            color={SERVO_COLORS[index % SERVO_COLORS.length]}
+          />
+        ))}
+        <OrbitControls />
+      </Canvas>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { JSX, useEffect, useRef, useState } from 'react';
+import { useTelemetryHistory } from '../contexts/TelemetryContext';
+import { HISTORY_WINDOWS, TelemetrySample } from '../utils/telemetryHistory';
+
+interface TelemetryChartProps {
+  itemId: string;
+  unit?: string;
+  precision?: number;
+  color?: string;
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Drawing area, in viewBox units
+const WIDTH = 400;
+const HEIGHT = 150;
+const PLOT_LEFT = 44;
+const PLOT_RIGHT = WIDTH - 6;
+const PLOT_TOP = 18;
+const PLOT_BOTTOM = HEIGHT - 18;
+
+// Closest the chart can zoom in
+const MIN_SPAN_MS = 10 * 1000;
+// More points than this are thinned out before drawing
+const MAX_DRAWN_POINTS = 800;
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Nearest sample to a time; samples are sorted by timestamp
+function findNearest(samples: TelemetrySample[], time: number): TelemetrySample | null {
+  if (samples.length === 0) return null;
+  let low = 0;
+  let high = samples.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (samples[mid].timestamp < time) low = mid + 1;
+    else high = mid;
+  }
+  const before = samples[Math.max(0, low - 1)];
+  const after = samples[low];
+  return Math.abs(before.timestamp - time) < Math.abs(after.timestamp - time) ? before : after;
+}
+
+/**
+ * Line chart of one telemetry item's history
+ *
+ * Scroll to zoom around the cursor, drag to pan and double-click to go back
+ * to following live data.
+ */
+export default function TelemetryChart({ itemId, unit = '', precision = 2, color = '#0d6efd' }: TelemetryChartProps): JSX.Element {
+  const [windowMs, setWindowMs] = useState<number>(HISTORY_WINDOWS[1].durationMs);
+  // A fixed range while zoomed or panned; null follows the latest sample
+  const [view, setView] = useState<TimeRange | null>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const samples = useTelemetryHistory(itemId, windowMs);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const rangeRef = useRef<TimeRange>({ start: 0, end: 0 });
+  const dragRef = useRef<{ x: number; range: TimeRange } | null>(null);
+
+  const latest = samples.length > 0 ? samples[samples.length - 1].timestamp : Date.now();
+  const range = view ?? { start: latest - windowMs, end: latest };
+  rangeRef.current = range;
+  const span = range.end - range.start;
+
+  const visible = samples.filter(sample => sample.timestamp >= range.start && sample.timestamp <= range.end);
+  const stride = Math.ceil(visible.length / MAX_DRAWN_POINTS);
+  const drawn = stride > 1 ? visible.filter((_, i) => i % stride === 0 || i === visible.length - 1) : visible;
+
+  const values = visible.map(sample => sample.value);
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 1;
+  // A constant value still needs a non-zero vertical range
+  const padding = (max - min) * 0.05 || 1;
+  const yMin = min - padding;
+  const yMax = max + padding;
+
+  const toX = (timestamp: number) => PLOT_LEFT + ((timestamp - range.start) / span) * (PLOT_RIGHT - PLOT_LEFT);
+  const toY = (value: number) => PLOT_BOTTOM - ((value - yMin) / (yMax - yMin)) * (PLOT_BOTTOM - PLOT_TOP);
+
+  // Converts a mouse position into a time on the current range
+  const timeAt = (clientX: number, current: TimeRange = rangeRef.current): number => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return current.end;
+    const x = ((clientX - rect.left) / rect.width) * WIDTH;
+    const fraction = Math.min(1, Math.max(0, (x - PLOT_LEFT) / (PLOT_RIGHT - PLOT_LEFT)));
+    return current.start + fraction * (current.end - current.start);
+  };
+
+  // React's wheel handler is passive, so page scrolling can only be stopped from a native listener
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const current = rangeRef.current;
+      const anchor = timeAt(event.clientX, current);
+      const factor = event.deltaY < 0 ? 0.8 : 1.25;
+      const nextSpan = Math.min(windowMs, Math.max(MIN_SPAN_MS, (current.end - current.start) * factor));
+      const ratio = (anchor - current.start) / (current.end - current.start);
+      setView({ start: anchor - ratio * nextSpan, end: anchor + (1 - ratio) * nextSpan });
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [windowMs]);
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      const rect = svgRef.current?.getBoundingClientRect();
+      const plotWidth = rect ? ((PLOT_RIGHT - PLOT_LEFT) / WIDTH) * rect.width : 1;
+      const shift = ((drag.x - event.clientX) / plotWidth) * (drag.range.end - drag.range.start);
+      setView({ start: drag.range.start + shift, end: drag.range.end + shift });
+      return;
+    }
+    setHoverTime(timeAt(event.clientX));
+  };
+
+  const handleWindowChange = (durationMs: number) => {
+    setWindowMs(durationMs);
+    setView(null);
+  };
+
+  const hovered = hoverTime !== null ? findNearest(visible, hoverTime) : null;
+  const points = drawn.map(sample => `${toX(sample.timestamp).toFixed(1)},${toY(sample.value).toFixed(1)}`).join(' ');
+
+  return (
+    <div>
+      <div className="d-flex justify-content-between align-items-center mb-1">
+        <div className="btn-group btn-group-sm" role="group" aria-label="Time window">
+          {HISTORY_WINDOWS.map(option => (
+            <button
+              key={option.label}
+              type="button"
+              className={`btn ${option.durationMs === windowMs ? 'btn-secondary' : 'btn-outline-secondary'}`}
+              onClick={() => handleWindowChange(option.durationMs)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {view && (
+          <button type="button" className="btn btn-link btn-sm p-0" onClick={() => setView(null)}>
+            Follow live
+          </button>
+        )}
+      </div>
+
+      <svg
+        ref={svgRef}
+        width="100%"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        style={{ cursor: dragRef.current ? 'grabbing' : 'crosshair', userSelect: 'none' }}
+        onMouseDown={(e) => { dragRef.current = { x: e.clientX, range: rangeRef.current }; }}
+        onMouseUp={() => { dragRef.current = null; }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => { dragRef.current = null; setHoverTime(null); }}
+        onDoubleClick={() => setView(null)}
+      >
+        <title>{`${itemId} history`}</title>
+        <rect x={PLOT_LEFT} y={PLOT_TOP} width={PLOT_RIGHT - PLOT_LEFT} height={PLOT_BOTTOM - PLOT_TOP} fill="#f8f9fa" stroke="#dee2e6" />
+
+        {/* Axis labels */}
+        <text x={PLOT_LEFT - 4} y={PLOT_TOP + 4} fontSize="9" textAnchor="end" fill="#6c757d">{yMax.toFixed(precision)}</text>
+        <text x={PLOT_LEFT - 4} y={PLOT_BOTTOM} fontSize="9" textAnchor="end" fill="#6c757d">{yMin.toFixed(precision)}</text>
+        <text x={PLOT_LEFT} y={HEIGHT - 4} fontSize="9" fill="#6c757d">{formatTime(range.start)}</text>
+        <text x={PLOT_RIGHT} y={HEIGHT - 4} fontSize="9" textAnchor="end" fill="#6c757d">{formatTime(range.end)}</text>
+
+        {drawn.length > 1 && (
+          <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+        )}
+        {visible.length === 0 && (
+          <text x={(PLOT_LEFT + PLOT_RIGHT) / 2} y={(PLOT_TOP + PLOT_BOTTOM) / 2} fontSize="10" textAnchor="middle" fill="#6c757d">
+            No data in this window yet
+          </text>
+        )}
+
+        {/* Hover readout */}
+        {hovered && !dragRef.current && (
+          <g>
+            <line x1={toX(hovered.timestamp)} x2={toX(hovered.timestamp)} y1={PLOT_TOP} y2={PLOT_BOTTOM} stroke="#6c757d" strokeDasharray="2,2" />
+            <circle cx={toX(hovered.timestamp)} cy={toY(hovered.value)} r={3} fill={color} />
+            <text x={PLOT_LEFT} y={PLOT_TOP - 5} fontSize="10" fill="#212529">
+              {`${hovered.value.toFixed(precision)}${unit ? ` ${unit}` : ''} at ${formatTime(hovered.timestamp)}`}
+            </text>
+          </g>
+        )}
+      </svg>
+    </div>
+  );
+}
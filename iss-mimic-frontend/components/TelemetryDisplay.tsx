@@ -1,6 +1,6 @@
 'use client';
 
-import { useTelemetry } from '../contexts/TelemetryContext';
+import { useTelemetryValue } from '../contexts/TelemetryContext';
 
 // Simple component to display telemetry data in other pages
 export default function TelemetryDisplay({ itemId, showLabel = true, className = "" }: { 
@@ -8,18 +8,18 @@ export default function TelemetryDisplay({ itemId, showLabel = true, className =
   showLabel?: boolean;
   className?: string;
 }) {
-  const { telemetryItems } = useTelemetry();
-  const telemetry = telemetryItems[itemId];
+  const telemetry = useTelemetryValue(itemId);
   
   if (!telemetry) {
     return <span className={className}>Loading...</span>;
   }
   
   return (
-    <span className={className}>
+    <span className={className} style={telemetry.lastKnown ? { opacity: 0.6 } : undefined}>
       {showLabel && `${telemetry.name}: `}
-      {telemetry.value}
+      {telemetry.displayValue}
       {telemetry.unit && ` ${telemetry.unit}`}
+      {telemetry.lastKnown && <small className="ms-1">(last known)</small>}
     </span>
   );
 }
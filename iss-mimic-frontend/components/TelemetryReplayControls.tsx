@@ -0,0 +1,128 @@
+"use client";
+
+import { ChangeEvent, JSX, useState } from 'react';
+import { useRecordedUpdateCount, useReplayState, useTelemetry } from '../contexts/TelemetryContext';
+import { createRecordingFile, parseRecording, REPLAY_SPEEDS } from '../utils/telemetryRecording';
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Record the live session to a file, or play one back in its place
+export default function TelemetryReplayControls({ className = "" }: { className?: string }): JSX.Element {
+  const {
+    isRecording,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
+    pauseReplay,
+    resumeReplay,
+    seekReplay,
+    setReplaySpeed,
+  } = useTelemetry();
+  const recordedUpdateCount = useRecordedUpdateCount();
+  const replay = useReplayState();
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleStopRecording = () => {
+    const recording = stopRecording();
+    if (!recording) return;
+
+    const url = URL.createObjectURL(createRecordingFile(recording));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `iss-telemetry-${new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear it so picking the same file again still fires
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      startReplay(parseRecording(await file.text()), file.name);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (replay) {
+    return (
+      <div className={className}>
+        <div className="d-flex justify-content-between align-items-center mb-1">
+          <span className="small">
+            <span className="badge bg-info me-2">Replay</span>
+            {replay.name}
+          </span>
+          <button type="button" className="btn btn-outline-secondary btn-sm" onClick={stopReplay}>
+            Back to Live
+          </button>
+        </div>
+        <input
+          type="range"
+          className="form-range"
+          min={0}
+          max={replay.durationMs}
+          step={1000}
+          value={replay.positionMs}
+          onChange={(e) => seekReplay(Number(e.target.value))}
+          aria-label="Replay position"
+        />
+        <div className="d-flex justify-content-between align-items-center">
+          <button
+            type="button"
+            className="btn btn-primary btn-sm"
+            onClick={replay.playing ? pauseReplay : resumeReplay}
+          >
+            {replay.playing ? 'Pause' : 'Play'}
+          </button>
+          <div className="btn-group btn-group-sm" role="group" aria-label="Replay speed">
+            {REPLAY_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                type="button"
+                className={`btn ${speed === replay.speed ? 'btn-secondary' : 'btn-outline-secondary'}`}
+                onClick={() => setReplaySpeed(speed)}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+          <span className="small font-monospace">
+            {formatDuration(replay.positionMs)} / {formatDuration(replay.durationMs)}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="d-flex gap-2 align-items-center">
+        {isRecording ? (
+          <button type="button" className="btn btn-danger btn-sm" onClick={handleStopRecording}>
+            Stop and Download ({recordedUpdateCount} updates)
+          </button>
+        ) : (
+          <button type="button" className="btn btn-outline-danger btn-sm" onClick={startRecording}>
+            Record Session
+          </button>
+        )}
+        <label className="btn btn-outline-secondary btn-sm mb-0">
+          Replay File...
+          <input type="file" accept="application/json,.json" hidden onChange={handleFileChange} />
+        </label>
+      </div>
+      {loadError && <div className="text-danger small mt-1">{loadError}</div>}
+    </div>
+  );
+}
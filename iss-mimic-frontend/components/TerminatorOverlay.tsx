@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { solarElevationAt, SubsolarPoint } from '@/utils/solar';
+
+interface TerminatorOverlayProps {
+  subsolarPoint: SubsolarPoint;
+  // Size of the equirectangular map it covers
+  width: number;
+  depth: number;
+  position: [number, number, number];
+}
+
+// Pixels across the whole map; half a degree each
+const TEXTURE_WIDTH = 720;
+const TEXTURE_HEIGHT = 360;
+
+// Shading deepens through twilight until the Sun is this far below the horizon
+const FULL_NIGHT_ELEVATION = -12;
+const NIGHT_ALPHA = 150;
+// Degrees either side of the terminator drawn as its line
+const LINE_HALF_WIDTH = 0.35;
+
+// Shades the night side of an equirectangular map and draws the terminator
+export default function TerminatorOverlay({ subsolarPoint, width, depth, position }: TerminatorOverlayProps) {
+  const canvas = useMemo(() => {
+    const element = document.createElement('canvas');
+    element.width = TEXTURE_WIDTH;
+    element.height = TEXTURE_HEIGHT;
+    return element;
+  }, []);
+  const texture = useMemo(() => new THREE.CanvasTexture(canvas), [canvas]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  // The Sun moves a quarter of a degree a minute, so redrawing on each position update is plenty
+  useEffect(() => {
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    const image = context.createImageData(TEXTURE_WIDTH, TEXTURE_HEIGHT);
+
+    for (let row = 0; row < TEXTURE_HEIGHT; row++) {
+      const lat = 90 - ((row + 0.5) / TEXTURE_HEIGHT) * 180;
+      for (let column = 0; column < TEXTURE_WIDTH; column++) {
+        const lon = ((column + 0.5) / TEXTURE_WIDTH) * 360 - 180;
+        const elevation = solarElevationAt(lat, lon, subsolarPoint);
+        const offset = (row * TEXTURE_WIDTH + column) * 4;
+
+        if (Math.abs(elevation) < LINE_HALF_WIDTH) {
+          image.data[offset] = 255;
+          image.data[offset + 1] = 180;
+          image.data[offset + 2] = 60;
+          image.data[offset + 3] = 220;
+        } else if (elevation < 0) {
+          const depthOfNight = Math.min(1, elevation / FULL_NIGHT_ELEVATION);
+          image.data[offset + 2] = 20;
+          image.data[offset + 3] = Math.round(NIGHT_ALPHA * (0.4 + 0.6 * depthOfNight));
+        }
+      }
+    }
+
+    context.putImageData(image, 0, 0);
+    texture.needsUpdate = true;
+  }, [canvas, texture, subsolarPoint]);
+
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={position}>
+      <planeGeometry args={[width, depth]} />
+      <meshBasicMaterial map={texture} transparent depthWrite={false} />
+    </mesh>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import {
+  AlertAction,
+  AlertEvent,
+  AlertRule,
+  createAlertEvaluator,
+  DEFAULT_ALERT_RULES,
+  normalizeAlertRules,
+} from '@/utils/alertRules';
+import { setButtonBit } from '@/utils/robotPackets';
+import { parseRecording } from '@/utils/telemetryRecording';
+import { useRobotSender } from './BluetoothContext';
+import { useTelemetry } from './TelemetryContext';
+
+const RULES_STORAGE_KEY = 'issMimic.alertRules';
+const LOG_STORAGE_KEY = 'issMimic.alertLog';
+
+// Oldest entries are dropped past this many
+export const ALERT_LOG_LIMIT = 200;
+
+const EVALUATE_INTERVAL_MS = 1000;
+
+interface AlertContextType {
+  rules: AlertRule[];
+  addRule: () => void;
+  updateRule: (id: string, changes: Partial<AlertRule>) => void;
+  removeRule: (id: string) => void;
+  resetRules: () => void;
+  // Newest first
+  log: AlertEvent[];
+  clearLog: () => void;
+  // Fired alerts still on screen
+  notifications: AlertEvent[];
+  dismissNotification: (id: string) => void;
+}
+
+const AlertContext = createContext<AlertContextType | undefined>(undefined);
+
+export function AlertProvider({ children }: { children: React.ReactNode }) {
+  const [rules, setRules] = useState<AlertRule[]>(DEFAULT_ALERT_RULES);
+  const [log, setLog] = useState<AlertEvent[]>([]);
+  const [notifications, setNotifications] = useState<AlertEvent[]>([]);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const { getLiveSignal, getHistorySamples, isReplaying, startReplay } = useTelemetry();
+  const { pulseButtons } = useRobotSender();
+
+  // Read by the evaluation timer, which outlives any single render
+  const rulesRef = useRef<AlertRule[]>(rules);
+  rulesRef.current = rules;
+  const replayingRef = useRef<boolean>(false);
+  replayingRef.current = isReplaying;
+  const evaluatorRef = useRef(createAlertEvaluator());
+
+  // Load the saved rules and log once on the client
+  useEffect(() => {
+    try {
+      const savedRules = localStorage.getItem(RULES_STORAGE_KEY);
+      if (savedRules) {
+        setRules(normalizeAlertRules(JSON.parse(savedRules)));
+      }
+      const savedLog = localStorage.getItem(LOG_STORAGE_KEY);
+      if (savedLog) {
+        const parsed = JSON.parse(savedLog);
+        if (Array.isArray(parsed)) setLog(parsed.slice(0, ALERT_LOG_LIMIT));
+      }
+    } catch (err) {
+      console.error('Failed to load alert settings:', err);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Save whenever they change (but not before the saved ones were read)
+  useEffect(() => {
+    if (!isLoaded) return;
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+  }, [rules, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(log));
+  }, [log, isLoaded]);
+
+  const runAction = useCallback((action: AlertAction) => {
+    switch (action.type) {
+      case 'flashLeds': {
+        const byte = action.button < 8 ? 'byte0' : 'byte1';
+        pulseButtons({ [byte]: setButtonBit(0, action.button % 8, true) }, action.seconds * 1000);
+        break;
+      }
+      case 'replay':
+        // Leave a replay someone is already watching alone
+        if (replayingRef.current) break;
+        fetch(action.url)
+          .then(response => {
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            return response.text();
+          })
+          .then(text => startReplay(parseRecording(text), action.url.split('/').pop() ?? action.url))
+          .catch(err => console.error(`Alert could not start replay of ${action.url}:`, err));
+        break;
+    }
+  }, [pulseButtons, startReplay]);
+
+  // Check every rule against live telemetry
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const events = evaluatorRef.current.evaluate(rulesRef.current, {
+        now: Date.now(),
+        signal: getLiveSignal(),
+        getSamples: getHistorySamples,
+      });
+      if (events.length === 0) return;
+
+      const newestFirst = [...events].reverse();
+      setLog(prev => [...newestFirst, ...prev].slice(0, ALERT_LOG_LIMIT));
+      setNotifications(prev => [...newestFirst, ...prev]);
+      for (const event of events) {
+        const rule = rulesRef.current.find(r => r.id === event.ruleId);
+        if (rule) runAction(rule.action);
+      }
+    }, EVALUATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [getLiveSignal, getHistorySamples, runAction]);
+
+  const addRule = useCallback(() => {
+    setRules(prev => [...prev, {
+      id: `rule-${Date.now()}`,
+      name: 'New rule',
+      enabled: false,
+      severity: 'info',
+      cooldownMinutes: 5,
+      condition: { type: 'threshold', itemId: 'S0000004', operator: '>', value: 180 },
+      action: { type: 'none' },
+    }]);
+  }, []);
+
+  const updateRule = useCallback((id: string, changes: Partial<AlertRule>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== id));
+  }, []);
+
+  const resetRules = useCallback(() => {
+    setRules(DEFAULT_ALERT_RULES);
+  }, []);
+
+  const clearLog = useCallback(() => {
+    setLog([]);
+  }, []);
+
+  const dismissNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(event => event.id !== id));
+  }, []);
+
+  return (
+    <AlertContext.Provider value={{
+      rules,
+      addRule,
+      updateRule,
+      removeRule,
+      resetRules,
+      log,
+      clearLog,
+      notifications,
+      dismissNotification,
+    }}>
+      {children}
+    </AlertContext.Provider>
+  );
+}
+
+export function useAlerts() {
+  const context = useContext(AlertContext);
+  if (context === undefined) {
+    throw new Error('useAlerts must be used within an AlertProvider');
+  }
+  return context;
+}
@@ -1,207 +1,993 @@
 "use client";
 
-import { createContext, useState, useContext, useEffect, useCallback, useRef, ReactNode, JSX } from 'react';
+import { createContext, useState, useContext, useCallback, useEffect, useMemo, useRef, ReactNode, JSX } from 'react';
+import {
+  checkProtocolCompatibility,
+  framePacket,
+  createPingPacket,
+  mergeButtons,
+  parseFrameAck,
+  parsePong,
+  parseProtocolAnnouncement,
+  ProtocolCompatibility,
+  RobotButtons,
+} from '../utils/robotPackets';
+import { CURRENT_PACKET_VERSION, PING_COMMAND, PING_MIN_VERSION } from '../utils/packetSchema';
+import {
+  createTransport,
+  DEFAULT_TRANSPORT_OPTIONS,
+  RobotTransport,
+  TransportKind,
+  TransportOptions,
+} from '../utils/transports';
+import { getPermittedBluetoothDevices } from '../utils/transports/webBluetooth';
+import {
+  createSendQueue,
+  DEFAULT_SEND_QUEUE_SETTINGS,
+  EMPTY_SEND_QUEUE_STATS,
+  SendQueue,
+  SendQueueSettings,
+  SendQueueStats,
+} from '../utils/sendQueue';
+import { appendBatterySample, BatterySample, decodeRobotTelemetry, RobotTelemetry } from '../utils/robotTelemetry';
+import {
+  BatteryLevel,
+  createParkPacket,
+  createSafetyInterlock,
+  DEFAULT_SAFETY_SETTINGS,
+  getBatteryLevel,
+  SafetyInterlock,
+  SafetySettings,
+} from '../utils/safety';
 
-// BLE UUIDs
-const SERVICE_UUID_PESTOBLE = '27df26c5-83f4-4964-bae0-d7b7cb0a1f54';
-const CHARACTERISTIC_UUID_GAMEPAD = '452af57e-ad27-422c-88ae-76805ea641a9';
-const CHARACTERISTIC_UUID_TELEMETRY = '266d9d74-3e10-4fcd-88d2-cb63b5324d0c';
+const SAFETY_STORAGE_KEY = 'issMimic.safetySettings';
+const DEFAULT_ROBOT_STORAGE_KEY = 'issMimic.defaultRobot';
+
+// Counters for the optional sequence/CRC framing
+export interface LinkStats {
+  framesSent: number;
+  framesAcknowledged: number;
+  framesRejected: number;
+  lastAckedSequence: number | null;
+  // Share of frames up to the last acknowledged one that arrived intact, or null before the first ack
+  linkQuality: number | null;
+}
+
+const EMPTY_LINK_STATS: LinkStats = {
+  framesSent: 0,
+  framesAcknowledged: 0,
+  framesRejected: 0,
+  lastAckedSequence: null,
+  linkQuality: null,
+};
+
+// Round-trip times measured with ping commands
+export interface LatencyStats {
+  lastMs: number | null;
+  // Exponentially weighted, so one slow reply does not dominate
+  averageMs: number | null;
+  pingsSent: number;
+  // Pings with no reply within PING_TIMEOUT_MS
+  lost: number;
+}
+
+export const EMPTY_LATENCY_STATS: LatencyStats = {
+  lastMs: null,
+  averageMs: null,
+  pingsSent: 0,
+  lost: 0,
+};
+
+const PING_INTERVAL_MS = 2000;
+const PING_TIMEOUT_MS = 5000;
+
+// Per-packet counters reach React state at most this often
+const DIAGNOSTICS_PUBLISH_MS = 1000;
+
+// Extends a wrapping 16-bit counter from the firmware onto a running total
+const unwrapCounter = (previous: number, raw: number): number => previous + ((raw - previous) & 0xFFFF);
+
+// A raw packet seen on the link, for the packet inspector
+export interface PacketLogEntry {
+  id: number;
+  robotId: string;
+  direction: 'sent' | 'received';
+  timestamp: number;
+  bytes: Uint8Array;
+}
+
+export type PacketLogListener = (entry: PacketLogEntry) => void;
+
+// How many packets the provider remembers for an inspector opened later
+export const PACKET_LOG_LIMIT = 1000;
+
+// Automatic reconnection after an unexpected drop
+export interface ReconnectSettings {
+  enabled: boolean;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_RECONNECT_SETTINGS: ReconnectSettings = {
+  enabled: true,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 10,
+};
+
+export interface ReconnectState {
+  attempt: number;
+  // When the next attempt starts (ms since epoch), or null while one is running
+  nextRetryAt: number | null;
+}
+
+// One robot the provider knows about, connected or not
+export interface RobotConnection {
+  id: string;
+  name: string;
+  transportKind: TransportKind;
+  transportOptions: TransportOptions;
+  isConnected: boolean;
+  connecting: boolean;
+  connectionStatus: string;
+  statusColor: string;
+  telemetryData: string;
+  // The latest decoded notification other than acks and announcements
+  telemetry: RobotTelemetry | null;
+  batteryHistory: BatterySample[];
+  robotProtocolVersion: number | null;
+  linkStats: LinkStats;
+  queueStats: SendQueueStats;
+  reconnectState: ReconnectState | null;
+  batteryLevel: BatteryLevel;
+  // Set while motion is blocked waiting for acknowledgement
+  interlock: SafetyInterlock | null;
+  connectedAt: number | null;
+  // Like linkStats.framesSent and queueStats, refreshed about once a second
+  lastNotificationAt: number | null;
+  latency: LatencyStats;
+}
+
+// Where a packet goes: every connected robot, or one robot by id
+export type RobotTarget = 'all' | string;
+
+// Per-robot objects that live outside React state
+interface RobotRuntime {
+  transport: RobotTransport | null;
+  queue: SendQueue;
+  connected: boolean;
+  sequence: number;
+  // Last pose sent, replayed after an automatic reconnect
+  lastPacket: Uint8Array | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  interlocked: boolean;
+  lastNotificationAt: number;
+  // Cleared when a low-battery interlock is acknowledged, set again once the battery recovers
+  batteryInterlockArmed: boolean;
+  nextPingId: number;
+  // Ping id to the time it was written
+  pendingPings: Map<number, number>;
+  // Counted here on every packet and published to state by a timer, so a
+  // page that shows robots does not re-render for each one
+  framesSent: number;
+  queueStats: SendQueueStats;
+  lastReceivedAt: number | null;
+}
+
+const createRobotConnection = (id: string, name: string, transportKind: TransportKind,
+  transportOptions: TransportOptions): RobotConnection => ({
+  id,
+  name,
+  transportKind,
+  transportOptions,
+  isConnected: false,
+  connecting: false,
+  connectionStatus: 'Not Connected',
+  statusColor: 'black',
+  telemetryData: 'No Data',
+  telemetry: null,
+  batteryHistory: [],
+  robotProtocolVersion: null,
+  linkStats: EMPTY_LINK_STATS,
+  queueStats: EMPTY_SEND_QUEUE_STATS,
+  reconnectState: null,
+  batteryLevel: 'unknown',
+  interlock: null,
+  connectedAt: null,
+  lastNotificationAt: null,
+  latency: EMPTY_LATENCY_STATS,
+});
+
+const robotPacketVersion = (robot: RobotConnection): number =>
+  checkProtocolCompatibility(robot.robotProtocolVersion).version ?? CURRENT_PACKET_VERSION;
 
 interface BluetoothContextType {
+  // Every robot, and the one the connection bar is showing
+  robots: RobotConnection[];
+  activeRobot: RobotConnection;
+  setActiveRobotId: (id: string) => void;
+  addRobot: () => string;
+  removeRobot: (id: string) => void;
+  renameRobot: (id: string, name: string) => void;
+  connectRobot: (id: string) => Promise<void>;
+  disconnectRobot: (id: string) => Promise<void>;
+  // Names of Bluetooth robots the browser remembers; empty where getDevices() is unsupported
+  permittedDevices: string[];
+  refreshPermittedDevices: () => Promise<void>;
+  // Reopened without the chooser when the page loads
+  defaultRobotName: string | null;
+  setDefaultRobotName: (name: string | null) => void;
+  packetVersionFor: (target: RobotTarget) => number;
+  // True while any robot is connected
   isConnected: boolean;
+  // The rest describe the active robot
   connecting: boolean;
   connectionStatus: string;
   statusColor: string;
   telemetryData: string;
+  telemetry: RobotTelemetry | null;
+  batteryHistory: BatterySample[];
+  robotProtocolVersion: number | null;
+  protocolCompatibility: ProtocolCompatibility;
+  // A version every connected robot understands, for broadcasts
+  packetVersion: number;
+  framingEnabled: boolean;
+  setFramingEnabled: (enabled: boolean) => void;
+  linkStats: LinkStats;
+  queueStats: SendQueueStats;
+  sendQueueSettings: SendQueueSettings;
+  setSendQueueSettings: (settings: SendQueueSettings) => void;
+  subscribePacketLog: (listener: PacketLogListener) => () => void;
+  getPacketLog: () => PacketLogEntry[];
+  transportKind: TransportKind;
+  setTransportKind: (kind: TransportKind) => void;
+  transportOptions: TransportOptions;
+  setTransportOptions: (options: TransportOptions) => void;
+  reconnectSettings: ReconnectSettings;
+  setReconnectSettings: (settings: ReconnectSettings) => void;
+  reconnectState: ReconnectState | null;
+  safetySettings: SafetySettings;
+  setSafetySettings: (settings: SafetySettings) => void;
+  acknowledgeInterlock: (id: string) => void;
   connectToDevice: () => Promise<void>;
   disconnectFromDevice: () => Promise<void>;
-  sendPacket: (byteArray: number[] | Uint8Array) => void;
+  // Broadcasts unless a target robot is given
+  sendPacket: (byteArray: number[] | Uint8Array, target?: RobotTarget) => void;
+  // Holds extra button bits in every packet for a while, resending the current pose with them
+  pulseButtons: (buttons: RobotButtons, durationMs: number) => void;
 }
 
 // Create context with a default value
 const BluetoothContext = createContext<BluetoothContextType | undefined>(undefined);
 
+// Just what a page needs to drive robots. Unlike the full context it only
+// changes when a robot connects, disconnects or changes packet version, so
+// pages that render a 3D scene are not re-rendered by link diagnostics.
+export interface RobotSender {
+  isConnected: boolean;
+  sendPacket: BluetoothContextType['sendPacket'];
+  packetVersionFor: BluetoothContextType['packetVersionFor'];
+  pulseButtons: BluetoothContextType['pulseButtons'];
+}
+
+const RobotSenderContext = createContext<RobotSender | undefined>(undefined);
+
 interface BluetoothProviderProps {
   children: ReactNode;
 }
 
+const FIRST_ROBOT_ID = 'robot-1';
+
 export function BluetoothProvider({ children }: BluetoothProviderProps): JSX.Element {
-  const [isConnected, setIsConnected] = useState<boolean>(false);
-  const [connectionStatus, setConnectionStatus] = useState<string>('Not Connected');
-  const [statusColor, setStatusColor] = useState<string>('black');
-  const [telemetryData, setTelemetryData] = useState<string>('No Data');
-  const [connecting, setConnecting] = useState<boolean>(false);
+  const [robots, setRobots] = useState<RobotConnection[]>(() => [
+    createRobotConnection(FIRST_ROBOT_ID, 'Robot 1', 'bluetooth', DEFAULT_TRANSPORT_OPTIONS),
+  ]);
+  const [activeRobotId, setActiveRobotIdState] = useState<string>(FIRST_ROBOT_ID);
+  const [framingEnabled, setFramingEnabledState] = useState<boolean>(true);
+  const [reconnectSettings, setReconnectSettingsState] = useState<ReconnectSettings>(DEFAULT_RECONNECT_SETTINGS);
+  const [sendQueueSettings, setSendQueueSettingsState] = useState<SendQueueSettings>(DEFAULT_SEND_QUEUE_SETTINGS);
+  const [safetySettings, setSafetySettingsState] = useState<SafetySettings>(DEFAULT_SAFETY_SETTINGS);
+  const [permittedDevices, setPermittedDevices] = useState<string[]>([]);
+  const [defaultRobotName, setDefaultRobotNameState] = useState<string | null>(null);
   
   // Use refs to persist these objects across renders
-  const deviceRef = useRef<BluetoothDevice | null>(null);
-  const gamepadCharacteristicRef = useRef<BluetoothRemoteGATTCharacteristic | null>(null);
-  const telemetryCharacteristicRef = useRef<BluetoothRemoteGATTCharacteristic | null>(null);
-
-  // Handle telemetry data updates
-  const handleTelemetryCharacteristic = useCallback((event: Event): void => {
-    const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
-    if (!value) return;
-    
-    let asciiString = '';
-    for (let i = 0; i < Math.min(8, value.byteLength); i++) {
-      asciiString += String.fromCharCode(value.getUint8(i));
+  const runtimesRef = useRef<Map<string, RobotRuntime>>(new Map());
+  const robotIdRef = useRef<number>(1);
+  // Mirrors of state read from transport callbacks, which outlive any single render
+  const robotsRef = useRef<RobotConnection[]>(robots);
+  robotsRef.current = robots;
+  const activeRobotIdRef = useRef<string>(activeRobotId);
+  activeRobotIdRef.current = activeRobotId;
+  const framingEnabledRef = useRef<boolean>(true);
+  const reconnectSettingsRef = useRef<ReconnectSettings>(DEFAULT_RECONNECT_SETTINGS);
+  const sendQueueSettingsRef = useRef<SendQueueSettings>(DEFAULT_SEND_QUEUE_SETTINGS);
+  const safetySettingsRef = useRef<SafetySettings>(DEFAULT_SAFETY_SETTINGS);
+  const packetLogRef = useRef<PacketLogEntry[]>([]);
+  const packetLogListenersRef = useRef<Set<PacketLogListener>>(new Set());
+  const packetLogIdRef = useRef<number>(0);
+  // Button bits added to every outgoing packet while a pulse lasts
+  const buttonPulseRef = useRef<RobotButtons | null>(null);
+  const buttonPulseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const updateRobot = useCallback((id: string,
+    changes: Partial<RobotConnection> | ((robot: RobotConnection) => Partial<RobotConnection>)): void => {
+    setRobots(prev => prev.map(robot => robot.id === id
+      ? { ...robot, ...(typeof changes === 'function' ? changes(robot) : changes) }
+      : robot));
+  }, []);
+
+  const setStatus = useCallback((id: string, connectionStatus: string, statusColor: string): void => {
+    updateRobot(id, { connectionStatus, statusColor });
+  }, [updateRobot]);
+
+  // Keep a copy of every packet for the packet inspector
+  const logPacket = useCallback((robotId: string, direction: PacketLogEntry['direction'], bytes: Uint8Array): void => {
+    const entry: PacketLogEntry = {
+      id: packetLogIdRef.current++,
+      robotId,
+      direction,
+      timestamp: Date.now(),
+      bytes: bytes.slice(),
+    };
+    packetLogRef.current.push(entry);
+    if (packetLogRef.current.length > PACKET_LOG_LIMIT) {
+      packetLogRef.current.shift();
     }
-    setTelemetryData(asciiString);
+    packetLogListenersRef.current.forEach(listener => listener(entry));
   }, []);
 
-  // Handle device disconnection
-  const handleDisconnection = useCallback((): void => {
-    console.log('Device disconnected');
-    setIsConnected(false);
-    setConnectionStatus('Not Connected');
-    setStatusColor('black');
-    // Optional: Auto-reconnect logic here
+  const getPacketLog = useCallback(() => packetLogRef.current.slice(), []);
+
+  const subscribePacketLog = useCallback((listener: PacketLogListener) => {
+    packetLogListenersRef.current.add(listener);
+    return () => {
+      packetLogListenersRef.current.delete(listener);
+    };
   }, []);
 
-  // Connect to the device
-  const connectToDevice = useCallback(async (): Promise<void> => {
-    if (connecting || isConnected) return;
+  // Frame, write and log one packet; the robot's send queue calls this one packet at a time
+  const writePacket = useCallback(async (id: string, packet: Uint8Array): Promise<void> => {
+    const runtime = runtimesRef.current.get(id);
+    if (!runtime?.transport || !runtime.connected) {
+      throw new Error('Not connected');
+    }
+    // Create a new Uint8Array with standard ArrayBuffer backing
+    let data = new Uint8Array(Array.from(packet));
+
+    // Pings are timed from when they are written, not queued
+    if (packet[0] === PING_COMMAND) {
+      runtime.pendingPings.set(packet[1] | (packet[2] << 8), Date.now());
+    }
+
+    // Pings are answered before the firmware looks at framing, so they never carry a sequence number
+    if (framingEnabledRef.current && packet[0] !== PING_COMMAND) {
+      data = new Uint8Array(Array.from(framePacket(data, runtime.sequence)));
+      runtime.sequence = (runtime.sequence + 1) & 0xFFFF;
+    }
+      
+    logPacket(id, 'sent', data);
+    runtime.framesSent++;
+    await runtime.transport.write(data);
+  }, [logPacket]);
+
+  const getRuntime = useCallback((id: string): RobotRuntime => {
+    let runtime = runtimesRef.current.get(id);
+    if (!runtime) {
+      runtime = {
+        transport: null,
+        queue: createSendQueue(
+          packet => writePacket(id, packet),
+          () => sendQueueSettingsRef.current,
+          queueStats => {
+            const current = runtimesRef.current.get(id);
+            if (current) current.queueStats = queueStats;
+          }
+        ),
+        connected: false,
+        sequence: 0,
+        lastPacket: null,
+        reconnectTimer: null,
+        interlocked: false,
+        lastNotificationAt: 0,
+        batteryInterlockArmed: true,
+        nextPingId: 0,
+        pendingPings: new Map(),
+        framesSent: 0,
+        queueStats: EMPTY_SEND_QUEUE_STATS,
+        lastReceivedAt: null,
+      };
+      runtimesRef.current.set(id, runtime);
+    }
+    return runtime;
+  }, [writePacket]);
+
+  // Park the robot and block motion until acknowledgeInterlock is called
+  const engageInterlock = useCallback((id: string, interlock: SafetyInterlock): void => {
+    const runtime = getRuntime(id);
+    if (runtime.interlocked) return;
+    console.warn(`Safety interlock on ${id}: ${interlock.message}`);
+    runtime.interlocked = true;
+    runtime.queue.clear();
+    const robot = robotsRef.current.find(r => r.id === id);
+    if (runtime.connected && robot) {
+      runtime.queue.enqueue(createParkPacket(robotPacketVersion(robot)));
+    }
+    updateRobot(id, { interlock });
+  }, [getRuntime, updateRobot]);
+
+  const acknowledgeInterlock = useCallback((id: string): void => {
+    const runtime = getRuntime(id);
+    const robot = robotsRef.current.find(r => r.id === id);
+    runtime.interlocked = false;
+    if (robot?.interlock?.reason === 'lowBattery') {
+      runtime.batteryInterlockArmed = false;
+    }
+    // Give a silent link a fresh timeout rather than re-engaging immediately
+    runtime.lastNotificationAt = Date.now();
+    updateRobot(id, { interlock: null });
+  }, [getRuntime, updateRobot]);
+
+  // Handle telemetry data updates from one robot's transport
+  const handleTelemetryData = useCallback((id: string, value: DataView): void => {
+    const runtime = getRuntime(id);
+    runtime.lastNotificationAt = Date.now();
+    runtime.lastReceivedAt = runtime.lastNotificationAt;
+    logPacket(id, 'received', new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+
+    // Frame acknowledgements share the telemetry characteristic
+    const ack = parseFrameAck(value);
+    if (ack) {
+      updateRobot(id, ({ linkStats: prev }) => {
+        const lastAckedSequence = unwrapCounter(prev.lastAckedSequence ?? 0, ack.lastSequence);
+        const framesAcknowledged = unwrapCounter(prev.framesAcknowledged, ack.accepted);
+        return {
+          linkStats: {
+            ...prev,
+            framesAcknowledged,
+            framesRejected: unwrapCounter(prev.framesRejected, ack.rejected),
+            lastAckedSequence,
+            linkQuality: Math.min(1, framesAcknowledged / (lastAckedSequence + 1)),
+          },
+        };
+      });
+      return;
+    }
+
+    const pongId = parsePong(value);
+    if (pongId !== null) {
+      const sentAt = runtime.pendingPings.get(pongId);
+      if (sentAt === undefined) return; // Already counted as lost
+      runtime.pendingPings.delete(pongId);
+      const rtt = runtime.lastNotificationAt - sentAt;
+      updateRobot(id, ({ latency }) => ({
+        latency: {
+          ...latency,
+          lastMs: rtt,
+          averageMs: latency.averageMs === null ? rtt : latency.averageMs * 0.8 + rtt * 0.2,
+        },
+      }));
+      return;
+    }
     
+    const telemetry = decodeRobotTelemetry(value);
+
+    // The firmware periodically announces its protocol version on the same characteristic
+    const announcedVersion = parseProtocolAnnouncement(telemetry.text);
+    if (announcedVersion !== null) {
+      updateRobot(id, { robotProtocolVersion: announcedVersion });
+      return;
+    }
+    let batteryLevel: BatteryLevel | undefined;
+    if (telemetry.batteryVoltage !== null) {
+      const settings = safetySettingsRef.current;
+      batteryLevel = getBatteryLevel(telemetry.batteryVoltage, settings);
+      if (batteryLevel === 'ok') {
+        runtime.batteryInterlockArmed = true;
+      } else if (batteryLevel === 'critical' && settings.enabled && runtime.batteryInterlockArmed) {
+        engageInterlock(id, createSafetyInterlock('lowBattery', telemetry.batteryVoltage));
+      }
+    }
+
+    updateRobot(id, robot => ({
+      batteryLevel: batteryLevel ?? robot.batteryLevel,
+      telemetryData: telemetry.text,
+      telemetry,
+      batteryHistory: telemetry.batteryVoltage === null
+        ? robot.batteryHistory
+        : appendBatterySample(robot.batteryHistory, { timestamp: telemetry.receivedAt, voltage: telemetry.batteryVoltage }),
+    }));
+  }, [getRuntime, logPacket, updateRobot, engageInterlock]);
+
+  const setFramingEnabled = useCallback((enabled: boolean): void => {
+    framingEnabledRef.current = enabled;
+    setFramingEnabledState(enabled);
+  }, []);
+
+  const setReconnectSettings = useCallback((settings: ReconnectSettings): void => {
+    reconnectSettingsRef.current = settings;
+    setReconnectSettingsState(settings);
+  }, []);
+
+  const setSendQueueSettings = useCallback((settings: SendQueueSettings): void => {
+    sendQueueSettingsRef.current = settings;
+    setSendQueueSettingsState(settings);
+  }, []);
+
+  const setSafetySettings = useCallback((settings: SafetySettings): void => {
+    safetySettingsRef.current = settings;
+    setSafetySettingsState(settings);
+    localStorage.setItem(SAFETY_STORAGE_KEY, JSON.stringify(settings));
+  }, []);
+
+  // Load saved safety thresholds once on the client
+  useEffect(() => {
     try {
-      setConnecting(true);
-      setConnectionStatus('Connecting');
-      setStatusColor('black');
-      
-      // Use existing device or request a new one
-      if (!deviceRef.current) {
-        if (!navigator.bluetooth) {
-          throw new Error('Web Bluetooth API not supported in this browser');
+      const saved = localStorage.getItem(SAFETY_STORAGE_KEY);
+      if (saved) {
+        const settings = { ...DEFAULT_SAFETY_SETTINGS, ...JSON.parse(saved) };
+        safetySettingsRef.current = settings;
+        setSafetySettingsState(settings);
+      }
+    } catch (err) {
+      console.error('Failed to load safety settings:', err);
+    }
+  }, []);
+
+  // Link-loss watchdog: a connected robot that goes quiet gets parked. One
+  // that has no telemetry channel is never heard from, so it is left alone.
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const settings = safetySettingsRef.current;
+      if (!settings.enabled) return;
+      const now = Date.now();
+      runtimesRef.current.forEach((runtime, id) => {
+        if (!runtime.connected || runtime.interlocked) return;
+        if (runtime.transport?.hasTelemetry?.() === false) return;
+        const silentSeconds = (now - runtime.lastNotificationAt) / 1000;
+        if (silentSeconds > settings.telemetryTimeoutSeconds) {
+          engageInterlock(id, createSafetyInterlock('linkLoss', silentSeconds));
         }
-        
-        const selectedDevice = await navigator.bluetooth.requestDevice({ 
-          filters: [{ services: [SERVICE_UUID_PESTOBLE] }] 
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [engageInterlock]);
+
+  // Publish the per-packet counters, skipping robots where nothing changed
+  useEffect(() => {
+    const timer = setInterval(() => {
+      runtimesRef.current.forEach((runtime, id) => {
+        const robot = robotsRef.current.find(r => r.id === id);
+        if (!robot) return;
+        if (robot.linkStats.framesSent === runtime.framesSent
+          && robot.queueStats === runtime.queueStats
+          && robot.lastNotificationAt === runtime.lastReceivedAt) return;
+        updateRobot(id, ({ linkStats }) => ({
+          linkStats: { ...linkStats, framesSent: runtime.framesSent },
+          queueStats: runtime.queueStats,
+          lastNotificationAt: runtime.lastReceivedAt,
+        }));
+      });
+    }, DIAGNOSTICS_PUBLISH_MS);
+    return () => clearInterval(timer);
+  }, [updateRobot]);
+
+  // Ping every robot new enough to answer, and count pings that never came back
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const now = Date.now();
+      robotsRef.current.forEach(robot => {
+        const runtime = runtimesRef.current.get(robot.id);
+        if (!runtime?.connected || (robot.robotProtocolVersion ?? 0) < PING_MIN_VERSION) return;
+
+        let lost = 0;
+        runtime.pendingPings.forEach((sentAt, pingId) => {
+          if (now - sentAt > PING_TIMEOUT_MS) {
+            runtime.pendingPings.delete(pingId);
+            lost++;
+          }
         });
-        deviceRef.current = selectedDevice;
+
+        const pingId = runtime.nextPingId;
+        runtime.nextPingId = (pingId + 1) & 0xFFFF;
+        runtime.queue.enqueue(createPingPacket(pingId), { coalesce: false });
+        updateRobot(robot.id, ({ latency }) => ({
+          latency: { ...latency, pingsSent: latency.pingsSent + 1, lost: latency.lost + lost },
+        }));
+      });
+    }, PING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [updateRobot]);
+
+  const cancelReconnect = useCallback((id: string): void => {
+    const runtime = getRuntime(id);
+    if (runtime.reconnectTimer) {
+      clearTimeout(runtime.reconnectTimer);
+      runtime.reconnectTimer = null;
+    }
+    updateRobot(id, { reconnectState: null });
+  }, [getRuntime, updateRobot]);
+
+  // Shared by manual connects and automatic reconnects
+  const handleConnected = useCallback((id: string, deviceName: string): void => {
+    const runtime = getRuntime(id);
+    runtime.connected = true;
+    runtime.sequence = 0;
+    runtime.lastNotificationAt = Date.now();
+    runtime.pendingPings.clear();
+    runtime.framesSent = 0;
+    runtime.queue.resetStats();
+    updateRobot(id, {
+      isConnected: true,
+      connectedAt: runtime.lastNotificationAt,
+      latency: EMPTY_LATENCY_STATS,
+      linkStats: EMPTY_LINK_STATS,
+      connectionStatus: `Connected to ${deviceName}`,
+      statusColor: '#4dae50', // green
+    });
+  }, [getRuntime, updateRobot]);
+
+  // Retry the remembered device with exponential backoff
+  const scheduleReconnect = useCallback((id: string, firstAttempt: number): void => {
+    const runtime = getRuntime(id);
+    const tryAttempt = (attempt: number) => {
+      const settings = reconnectSettingsRef.current;
+      const transport = runtime.transport;
+      if (!settings.enabled || !transport || attempt > settings.maxAttempts) {
+        updateRobot(id, { reconnectState: null });
+        if (attempt > settings.maxAttempts) {
+          setStatus(id, 'Reconnect Failed', '#eb5b5b');
+        } else {
+          setStatus(id, 'Not Connected', 'black');
+        }
+        return;
       }
+
+      const delay = Math.min(settings.maxDelayMs, settings.initialDelayMs * 2 ** (attempt - 1));
+      updateRobot(id, {
+        reconnectState: { attempt, nextRetryAt: Date.now() + delay },
+        connectionStatus: `Reconnecting (attempt ${attempt}/${settings.maxAttempts})`,
+        statusColor: '#f0ad4e', // orange
+      });
+
+      runtime.reconnectTimer = setTimeout(async () => {
+        runtime.reconnectTimer = null;
+        updateRobot(id, { reconnectState: { attempt, nextRetryAt: null } });
+        try {
+          const deviceName = await transport.connect();
+          // The transport may have been swapped or reconnected by hand meanwhile
+          if (runtime.transport !== transport) return;
+          updateRobot(id, { reconnectState: null });
+          handleConnected(id, deviceName);
+          if (runtime.lastPacket && !runtime.interlocked) {
+            runtime.queue.enqueue(runtime.lastPacket);
+          }
+        } catch (error) {
+          console.log(`Reconnect attempt ${attempt} failed:`, error);
+          if (runtime.transport === transport) {
+            tryAttempt(attempt + 1);
+          }
+        }
+      }, delay);
+    };
+    tryAttempt(firstAttempt);
+  }, [getRuntime, updateRobot, setStatus, handleConnected]);
+
+  // Handle device disconnection
+  const handleDisconnection = useCallback((id: string): void => {
+    console.log(`Device ${id} disconnected`);
+    const runtime = getRuntime(id);
+    runtime.connected = false;
+    runtime.queue.clear();
+    updateRobot(id, {
+      isConnected: false,
+      connectedAt: null,
+      connectionStatus: 'Not Connected',
+      statusColor: 'black',
+      robotProtocolVersion: null,
+    });
+    if (reconnectSettingsRef.current.enabled) {
+      scheduleReconnect(id, 1);
+    }
+  }, [getRuntime, updateRobot, scheduleReconnect]);
+
+  // The transport is created lazily and kept, so e.g. the chosen BLE device is remembered
+  const getTransport = useCallback((robot: RobotConnection): RobotTransport => {
+    const runtime = getRuntime(robot.id);
+    if (!runtime.transport || runtime.transport.kind !== robot.transportKind) {
+      runtime.transport = createTransport(
+        robot.transportKind,
+        {
+          onData: value => handleTelemetryData(robot.id, value),
+          onDisconnect: () => handleDisconnection(robot.id),
+        },
+        robot.transportOptions
+      );
+    }
+    return runtime.transport;
+  }, [getRuntime, handleTelemetryData, handleDisconnection]);
+
+  const setActiveRobotId = useCallback((id: string): void => {
+    if (robotsRef.current.some(robot => robot.id === id)) {
+      setActiveRobotIdState(id);
+    }
+  }, []);
+
+  // New robots start with the active robot's transport, since classrooms tend to use one kind
+  const addRobot = useCallback((): string => {
+    const number = ++robotIdRef.current;
+    const id = `robot-${number}`;
+    const template = robotsRef.current.find(robot => robot.id === activeRobotId) ?? robotsRef.current[0];
+    setRobots(prev => [
+      ...prev,
+      createRobotConnection(id, `Robot ${number}`, template.transportKind, template.transportOptions),
+    ]);
+    setActiveRobotIdState(id);
+    return id;
+  }, [activeRobotId]);
+
+  const renameRobot = useCallback((id: string, name: string): void => {
+    updateRobot(id, { name });
+  }, [updateRobot]);
+
+  // Connect one robot
+  const refreshPermittedDevices = useCallback(async (): Promise<void> => {
+    const devices = await getPermittedBluetoothDevices();
+    const names = devices.map(device => device.name).filter((name): name is string => !!name);
+    setPermittedDevices(Array.from(new Set(names)));
+  }, []);
+
+  const setDefaultRobotName = useCallback((name: string | null): void => {
+    setDefaultRobotNameState(name);
+    if (name) {
+      localStorage.setItem(DEFAULT_ROBOT_STORAGE_KEY, name);
+    } else {
+      localStorage.removeItem(DEFAULT_ROBOT_STORAGE_KEY);
+    }
+  }, []);
+
+  // Connect one robot, optionally to a remembered device instead of asking
+  const connectRobot = useCallback(async (id: string, knownDeviceName?: string): Promise<void> => {
+    const robot = robotsRef.current.find(r => r.id === id);
+    if (!robot || robot.connecting || robot.isConnected) return;
+    
+    cancelReconnect(id);
+    try {
+      updateRobot(id, {
+        connecting: true,
+        connectionStatus: knownDeviceName ? `Looking for ${knownDeviceName}` : 'Connecting',
+        statusColor: 'black',
+      });
       
-      const server = await deviceRef.current.gatt?.connect();
-      if (!server) {
-        throw new Error('Failed to connect to GATT server');
+      const transport = getTransport(robot);
+      if (!transport.isSupported()) {
+        throw new Error(`${transport.label} is not supported in this browser`);
       }
-      
-      const service = await server.getPrimaryService(SERVICE_UUID_PESTOBLE);
-      
-      // Connect to the gamepad characteristic
-      const characteristic = await service.getCharacteristic(CHARACTERISTIC_UUID_GAMEPAD);
-      gamepadCharacteristicRef.current = characteristic;
-      
-      // Connect to telemetry if available
-      try {
-        const telemetryCharacteristic = await service.getCharacteristic(CHARACTERISTIC_UUID_TELEMETRY);
-        await telemetryCharacteristic.startNotifications();
-        telemetryCharacteristic.addEventListener('characteristicvaluechanged', handleTelemetryCharacteristic);
-        telemetryCharacteristicRef.current = telemetryCharacteristic;
-      } catch (err) {
-        console.log("Telemetry characteristic not available.");
+      const deviceName = knownDeviceName && transport.connectKnown
+        ? await transport.connectKnown(knownDeviceName)
+        : await transport.connect();
+      handleConnected(id, deviceName);
+      if (robot.transportKind === 'bluetooth') {
+        refreshPermittedDevices();
       }
-      
-      // Set up disconnect handler
-      deviceRef.current.addEventListener('gattserverdisconnected', handleDisconnection);
-      
-      setIsConnected(true);
-      setConnectionStatus(`Connected to ${deviceRef.current.name}`);
-      setStatusColor('#4dae50'); // green
     } catch (error) {
       console.error('Connection error:', error);
       if (error instanceof Error) {
         if (error.name === 'NotFoundError') {
-          setConnectionStatus('No Device Selected');
+          setStatus(id, 'No Device Selected', '#eb5b5b');
         } else {
-          setConnectionStatus(`Connection Failed: ${error.message}`);
+          setStatus(id, `Connection Failed: ${error.message}`, '#eb5b5b');
         }
       } else {
-        setConnectionStatus('Connection Failed');
+        setStatus(id, 'Connection Failed', '#eb5b5b'); // red
       }
-      setStatusColor('#eb5b5b'); // red
     } finally {
-      setConnecting(false);
+      updateRobot(id, { connecting: false });
     }
-  }, [connecting, isConnected, handleTelemetryCharacteristic, handleDisconnection]);
+  }, [getTransport, cancelReconnect, handleConnected, updateRobot, setStatus, refreshPermittedDevices]);
+
+  // On load, reopen the default robot without the chooser where the browser allows it
+  useEffect(() => {
+    const savedName = localStorage.getItem(DEFAULT_ROBOT_STORAGE_KEY);
+    setDefaultRobotNameState(savedName);
+    refreshPermittedDevices();
+    if (savedName && navigator.bluetooth?.getDevices) {
+      connectRobot(FIRST_ROBOT_ID, savedName);
+    }
+    // Only once per page load
+  }, []);
 
-  // Disconnect from the device
-  const disconnectFromDevice = useCallback(async (): Promise<void> => {
-    if (!deviceRef.current || connecting || !isConnected) return;
+  // Disconnect one robot
+  const disconnectRobot = useCallback(async (id: string): Promise<void> => {
+    const robot = robotsRef.current.find(r => r.id === id);
+    if (!robot) return;
+    // Disconnecting while a reconnect is pending just gives up on it
+    if (robot.reconnectState) {
+      cancelReconnect(id);
+      setStatus(id, 'Not Connected', 'black');
+      return;
+    }
+    const runtime = getRuntime(id);
+    if (!runtime.transport || robot.connecting || !robot.isConnected) return;
     
     try {
-      setConnecting(true);
-      setConnectionStatus('Disconnecting');
-      setStatusColor('gray');
-      
-      if (telemetryCharacteristicRef.current) {
-        await telemetryCharacteristicRef.current.stopNotifications();
-        telemetryCharacteristicRef.current.removeEventListener(
-          'characteristicvaluechanged', 
-          handleTelemetryCharacteristic
-        );
-        telemetryCharacteristicRef.current = null;
-      }
+      updateRobot(id, { connecting: true, connectionStatus: 'Disconnecting', statusColor: 'gray' });
       
-      deviceRef.current.removeEventListener('gattserverdisconnected', handleDisconnection);
-      
-      if (deviceRef.current.gatt?.connected) {
-        await deviceRef.current.gatt.disconnect();
-      }
+      runtime.queue.clear();
+      await runtime.transport.disconnect();
       
-      setIsConnected(false);
-      setConnectionStatus('Not Connected');
-      setStatusColor('black');
+      runtime.connected = false;
+      updateRobot(id, {
+        isConnected: false,
+        connectedAt: null,
+        connectionStatus: 'Not Connected',
+        statusColor: 'black',
+        robotProtocolVersion: null,
+      });
     } catch (error) {
       console.error('Disconnection error:', error);
-      setConnectionStatus('Error Disconnecting');
-      setStatusColor('#eb5b5b');
+      setStatus(id, 'Error Disconnecting', '#eb5b5b');
     } finally {
-      setConnecting(false);
+      updateRobot(id, { connecting: false });
     }
-  }, [connecting, isConnected, handleDisconnection, handleTelemetryCharacteristic]);
+  }, [getRuntime, cancelReconnect, updateRobot, setStatus]);
 
-  // Send data packet to the robot
-  const sendPacket = useCallback((byteArray: number[] | Uint8Array): void => {
-    if (!isConnected || !gamepadCharacteristicRef.current) return;
-  
+  // The last robot stays, so there is always something for the connection bar to show
+  const removeRobot = useCallback((id: string): void => {
+    if (robotsRef.current.length <= 1) return;
+    const runtime = getRuntime(id);
+    if (runtime.reconnectTimer) {
+      clearTimeout(runtime.reconnectTimer);
+    }
+    runtime.queue.clear();
+    const transport = runtime.transport;
+    runtime.transport = null;
+    runtimesRef.current.delete(id);
+    if (runtime.connected) {
+      transport?.disconnect().catch(error => console.error('Disconnection error:', error));
+    }
+
+    const remaining = robotsRef.current.filter(robot => robot.id !== id);
+    setRobots(remaining);
+    if (activeRobotId === id) {
+      setActiveRobotIdState(remaining[0].id);
+    }
+  }, [getRuntime, activeRobotId]);
+
+  // Switching transport (or its settings) only takes effect while disconnected
+  const setRobotTransport = useCallback((id: string, changes: Pick<Partial<RobotConnection>, 'transportKind' | 'transportOptions'>): void => {
+    const robot = robotsRef.current.find(r => r.id === id);
+    if (!robot || robot.isConnected || robot.connecting) return;
+    cancelReconnect(id);
+    getRuntime(id).transport = null;
+    updateRobot(id, changes);
+  }, [getRuntime, cancelReconnect, updateRobot]);
+
+  const setTransportKind = useCallback((kind: TransportKind): void => {
+    setRobotTransport(activeRobotId, { transportKind: kind });
+  }, [activeRobotId, setRobotTransport]);
+
+  const setTransportOptions = useCallback((options: TransportOptions): void => {
+    setRobotTransport(activeRobotId, { transportOptions: options });
+  }, [activeRobotId, setRobotTransport]);
+
+  const connectToDevice = useCallback(() => connectRobot(activeRobotId), [activeRobotId, connectRobot]);
+  const disconnectFromDevice = useCallback(() => disconnectRobot(activeRobotId), [activeRobotId, disconnectRobot]);
+
+  // Send data packet to one robot or all connected robots
+  const sendPacket = useCallback((byteArray: number[] | Uint8Array, target: RobotTarget = 'all'): void => {
   try {
-    // Create a new Uint8Array with standard ArrayBuffer backing
-    const data = new Uint8Array(
-      byteArray instanceof Uint8Array 
-        ? Array.from(byteArray) // Convert to regular array first
-        : byteArray
-    );
-      
-    gamepadCharacteristicRef.current.writeValueWithoutResponse(data);
+    const packet = byteArray instanceof Uint8Array ? byteArray.slice() : Uint8Array.from(byteArray);
+    runtimesRef.current.forEach((runtime, id) => {
+      if ((target !== 'all' && target !== id) || !runtime.connected || !runtime.transport) return;
+      // Interlocked robots ignore motion until someone acknowledges
+      if (runtime.interlocked) return;
+      runtime.lastPacket = packet;
+      runtime.queue.enqueue(buttonPulseRef.current ? mergeButtons(packet, buttonPulseRef.current) : packet);
+    });
   } catch (error) {
     console.error('Error sending data:', error);
   }
-  }, [isConnected]);
+  }, []);
 
-  // Clean up on unmount
-  useEffect(() => {
-    return () => {
-      if (deviceRef.current && isConnected) {
-        // Just remove event listener without disconnecting
-        deviceRef.current.removeEventListener('gattserverdisconnected', handleDisconnection);
-      }
+  const pulseButtons = useCallback((buttons: RobotButtons, durationMs: number): void => {
+    // Robots that have no pose yet are skipped; a blank packet would move every servo to 0
+    const resendPose = () => {
+      runtimesRef.current.forEach(runtime => {
+        if (!runtime.connected || runtime.interlocked || !runtime.lastPacket) return;
+        runtime.queue.enqueue(buttonPulseRef.current ? mergeButtons(runtime.lastPacket, buttonPulseRef.current) : runtime.lastPacket);
+      });
     };
-  }, [isConnected, handleDisconnection]);
+
+    if (buttonPulseTimerRef.current) clearTimeout(buttonPulseTimerRef.current);
+    buttonPulseRef.current = buttons;
+    resendPose();
+    buttonPulseTimerRef.current = setTimeout(() => {
+      buttonPulseTimerRef.current = null;
+      buttonPulseRef.current = null;
+      resendPose();
+    }, durationMs);
+  }, []);
+
+  // Broadcasts use the oldest version any connected robot speaks. Reads the
+  // refs so it stays the same function while diagnostics update the robots.
+  const packetVersionFor = useCallback((target: RobotTarget): number => {
+    const current = robotsRef.current;
+    const targets = current.filter(robot => robot.isConnected && (target === 'all' || robot.id === target));
+    if (targets.length === 0) {
+      const robot = current.find(r => r.id === target) ?? current.find(r => r.id === activeRobotIdRef.current) ?? current[0];
+      return robotPacketVersion(robot);
+    }
+    return Math.min(...targets.map(robotPacketVersion));
+  }, []);
+
+  const isConnected = robots.some(robot => robot.isConnected);
+  // Everything packetVersionFor's answers depend on, so senders re-render when they change
+  const packetVersionKey = `${activeRobotId}|${robots.map(robot => `${robot.id}:${robot.isConnected}:${robotPacketVersion(robot)}`).join(',')}`;
+  const sender = useMemo<RobotSender>(() => ({
+    isConnected,
+    sendPacket,
+    packetVersionFor,
+    pulseButtons,
+  }), [isConnected, sendPacket, packetVersionFor, pulseButtons, packetVersionKey]);
+
+  const activeRobot = robots.find(robot => robot.id === activeRobotId) ?? robots[0];
+  const protocolCompatibility = checkProtocolCompatibility(activeRobot.robotProtocolVersion);
 
   // Provide values and functions
   const value: BluetoothContextType = {
+    robots,
+    activeRobot,
+    setActiveRobotId,
+    addRobot,
+    removeRobot,
+    renameRobot,
+    connectRobot,
+    disconnectRobot,
+    permittedDevices,
+    refreshPermittedDevices,
+    defaultRobotName,
+    setDefaultRobotName,
+    packetVersionFor,
     isConnected,
-    connecting,
-    connectionStatus,
-    statusColor,
-    telemetryData,
+    connecting: activeRobot.connecting,
+    connectionStatus: activeRobot.connectionStatus,
+    statusColor: activeRobot.statusColor,
+    telemetryData: activeRobot.telemetryData,
+    telemetry: activeRobot.telemetry,
+    batteryHistory: activeRobot.batteryHistory,
+    robotProtocolVersion: activeRobot.robotProtocolVersion,
+    protocolCompatibility,
+    packetVersion: packetVersionFor('all'),
+    framingEnabled,
+    setFramingEnabled,
+    linkStats: activeRobot.linkStats,
+    queueStats: activeRobot.queueStats,
+    sendQueueSettings,
+    setSendQueueSettings,
+    subscribePacketLog,
+    getPacketLog,
+    transportKind: activeRobot.transportKind,
+    setTransportKind,
+    transportOptions: activeRobot.transportOptions,
+    setTransportOptions,
+    reconnectSettings,
+    setReconnectSettings,
+    reconnectState: activeRobot.reconnectState,
+    safetySettings,
+    setSafetySettings,
+    acknowledgeInterlock,
     connectToDevice,
     disconnectFromDevice,
     sendPacket,
+    pulseButtons,
   };
 
   return (
     <BluetoothContext.Provider value={value}>
-      {children}
+      <RobotSenderContext.Provider value={sender}>
+        {children}
+      </RobotSenderContext.Provider>
     </BluetoothContext.Provider>
   );
 }
@@ -213,4 +999,12 @@ export function useBluetooth(): BluetoothContextType {
     throw new Error('useBluetooth must be used within a BluetoothProvider');
   }
   return context;
-}
\ No newline at end of file
+}
+// Send-only view of the Bluetooth context, for pages that re-render expensively
+export function useRobotSender(): RobotSender {
+  const context = useContext(RobotSenderContext);
+  if (context === undefined) {
+    throw new Error('useRobotSender must be used within a BluetoothProvider');
+  }
+  return context;
+}
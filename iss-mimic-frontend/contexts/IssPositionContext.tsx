@@ -1,6 +1,8 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
+import { GroundTrack } from '@/utils/groundTrack';
+import { IssSunlight, SubsolarPoint } from '@/utils/solar';
 //import { getLatestIssPosition } from '@/utils/iss_position_service';
 
 interface IssPosition {
@@ -14,6 +16,11 @@ interface IssPositionContextType {
   isLoading: boolean;
   error: string | null;
   refreshPosition: () => Promise<void>;
+  // Eclipse state and the next orbital sunrise/sunset; null if the TLE failed to propagate
+  sunlight: IssSunlight | null;
+  subsolarPoint: SubsolarPoint | null;
+  // Past 90 minutes and next 3 orbits, null until first loaded
+  groundTrack: GroundTrack | null;
 }
 
 const IssPositionContext = createContext<IssPositionContextType | undefined>(undefined);
@@ -22,6 +29,9 @@ export function IssPositionProvider({ children }: { children: React.ReactNode })
   const [position, setPosition] = useState<IssPosition | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [groundTrack, setGroundTrack] = useState<GroundTrack | null>(null);
+  const [sunlight, setSunlight] = useState<IssSunlight | null>(null);
+  const [subsolarPoint, setSubsolarPoint] = useState<SubsolarPoint | null>(null);
   
   const refreshPosition = async () => {
     setIsLoading(true);
@@ -31,6 +41,8 @@ export function IssPositionProvider({ children }: { children: React.ReactNode })
     if (!response.ok) throw new Error('Failed to fetch ISS position');
     const data = await response.json();
     setPosition(data.position);
+    setSunlight(data.sunlight ?? null);
+    setSubsolarPoint(data.subsolarPoint ?? null);
   } catch (err) {
     console.error('Failed to fetch ISS position:', err);
     setError(err instanceof Error ? err.message : 'Unknown error');
@@ -47,9 +59,34 @@ export function IssPositionProvider({ children }: { children: React.ReactNode })
     
     return () => clearInterval(interval);
   }, []);
+
+  // The track moves slowly, so once a minute is plenty
+  useEffect(() => {
+    const refreshGroundTrack = async () => {
+      try {
+        const response = await fetch('/api/iss-position/ground-track');
+        if (!response.ok) throw new Error('Failed to fetch ISS ground track');
+        setGroundTrack(await response.json());
+      } catch (err) {
+        console.error('Failed to fetch ISS ground track:', err);
+      }
+    };
+
+    refreshGroundTrack();
+    const interval = setInterval(refreshGroundTrack, 60000);
+    return () => clearInterval(interval);
+  }, []);
   
   return (
-    <IssPositionContext.Provider value={{ position, isLoading, error, refreshPosition }}>
+    <IssPositionContext.Provider value={{
+      position,
+      isLoading,
+      error,
+      refreshPosition,
+      sunlight,
+      subsolarPoint,
+      groundTrack,
+    }}>
       {children}
     </IssPositionContext.Provider>
   );
@@ -0,0 +1,71 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import {
+  ChannelMapping,
+  DEFAULT_JOINT_MAPPING,
+  JointAngles,
+  JointMapping,
+  mapJointsToAngles,
+  normalizeJointMapping,
+} from '@/utils/jointMapping';
+import { RobotAngles } from '@/utils/robotPackets';
+
+const STORAGE_KEY = 'issMimic.jointMapping';
+
+interface JointMappingContextType {
+  mapping: JointMapping;
+  updateChannel: (slot: number, changes: Partial<ChannelMapping>) => void;
+  resetMapping: () => void;
+  mapJoints: (joints: JointAngles) => RobotAngles;
+}
+
+const JointMappingContext = createContext<JointMappingContextType | undefined>(undefined);
+
+export function JointMappingProvider({ children }: { children: React.ReactNode }) {
+  const [mapping, setMapping] = useState<JointMapping>(DEFAULT_JOINT_MAPPING);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  // Load the saved mapping once on the client
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        setMapping(normalizeJointMapping(JSON.parse(saved)));
+      }
+    } catch (err) {
+      console.error('Failed to load joint mapping:', err);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Save whenever it changes (but not before the saved one was read)
+  useEffect(() => {
+    if (!isLoaded) return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mapping));
+  }, [mapping, isLoaded]);
+
+  const updateChannel = useCallback((slot: number, changes: Partial<ChannelMapping>) => {
+    setMapping(prev => prev.map((entry, index) => index === slot ? { ...entry, ...changes } : entry));
+  }, []);
+
+  const resetMapping = useCallback(() => {
+    setMapping(DEFAULT_JOINT_MAPPING);
+  }, []);
+
+  const mapJoints = useCallback((joints: JointAngles) => mapJointsToAngles(mapping, joints), [mapping]);
+
+  return (
+    <JointMappingContext.Provider value={{ mapping, updateChannel, resetMapping, mapJoints }}>
+      {children}
+    </JointMappingContext.Provider>
+  );
+}
+
+export function useJointMapping() {
+  const context = useContext(JointMappingContext);
+  if (context === undefined) {
+    throw new Error('useJointMapping must be used within a JointMappingProvider');
+  }
+  return context;
+}
@@ -1,179 +1,498 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { LightstreamerClient, Subscription } from 'lightstreamer-client-web';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  formatTelemetryValue,
+  getDefaultEnabledIds,
+  getTelemetryDefinition,
+  TELEMETRY_CATALOGUE,
+  TelemetryValueType,
+} from '@/utils/telemetryCatalogue';
+import { createTelemetryHistory, StoredHistory, TelemetrySample } from '@/utils/telemetryHistory';
+import { loadTelemetryHistory, saveTelemetryHistory } from '@/utils/telemetryHistoryDb';
+import {
+  createReplayPlayer,
+  RecordedUpdate,
+  RECORDING_FORMAT_VERSION,
+  ReplayPlayer,
+  ReplayState,
+  TelemetryRecording,
+  TIME_ITEM_ID,
+} from '@/utils/telemetryRecording';
+import {
+  createSignalTracker,
+  INITIAL_SIGNAL_STATE,
+  SignalEvent,
+  SignalKind,
+  SignalState,
+  SignalTracker,
+} from '@/utils/signalState';
+import { createTelemetrySource, getTelemetrySourceConfig, TelemetrySource, TelemetrySourceKind } from '@/utils/telemetrySources';
+import { createTelemetryStore } from '@/utils/telemetryStore';
 
-// Define types for the update parameter
-interface ItemUpdate {
-  getValue: (fieldName: string) => string;
-  getItemName: () => string;
-}
+const ENABLED_STORAGE_KEY = 'issMimic.enabledTelemetry';
+
+// How often the history is written to IndexedDB
+const HISTORY_SAVE_INTERVAL_MS = 30000;
+
+// Outside React state so thousands of samples don't re-render the provider
+const telemetryHistory = createTelemetryHistory();
+
+// Item values on screen, the replay's progress, the signal and the recording
+// size, outside React state so each component renders only for what it reads
+const telemetryStore = createTelemetryStore<TelemetryItem>();
+const replayStore = createTelemetryStore<ReplayState>();
+const REPLAY_KEY = 'state';
+const signalStore = createTelemetryStore<SignalState>();
+const SIGNAL_KEY = 'state';
+const recordingStore = createTelemetryStore<number>();
+const RECORDED_COUNT_KEY = 'updateCount';
+const NO_ITEMS: Record<string, TelemetryItem> = {};
+
+// Samples from a source's history this close to a local one are the same update seen twice
+const DUPLICATE_SAMPLE_MS = 1000;
+
+// Drops samples the local history already has, so loading a source's history twice adds nothing
+const withoutLocalSamples = (stored: Record<string, StoredHistory>): Record<string, StoredHistory> =>
+  Object.fromEntries(Object.entries(stored).map(([id, { timestamps, values }]) => {
+    const local = telemetryHistory.getSamples(id, 0);
+    const kept: StoredHistory = { timestamps: [], values: [] };
+    let j = 0;
+    timestamps.forEach((timestamp, i) => {
+      // Both are in time order, so walk the local samples alongside
+      while (j < local.length && local[j].timestamp < timestamp - DUPLICATE_SAMPLE_MS) j++;
+      if (j < local.length && local[j].timestamp <= timestamp + DUPLICATE_SAMPLE_MS) return;
+      kept.timestamps.push(timestamp);
+      kept.values.push(values[i]);
+    });
+    return [id, kept];
+  }));
 
 // Define the structure for telemetry items
-interface TelemetryItem {
+export interface TelemetryItem {
   id: string;
   name: string;
+  group: string;
+  valueType: TelemetryValueType;
   value: string;
+  // value formatted with the catalogue's precision and labels
+  displayValue: string;
   timestamp: string;
   unit?: string;
+  // True while the signal isn't AOS: the value is the last one received, not current
+  lastKnown: boolean;
 }
 
 // Define what data we'll provide through the context
+// The signal is read with useSignal, which re-renders less
 interface TelemetryContextType {
-  telemetryItems: Record<string, TelemetryItem>;
-  signalStatus: string;
-  signalClass: string;
   isConnected: boolean;
+  // Where live data comes from, chosen by NEXT_PUBLIC_TELEMETRY_SOURCE
+  sourceKind: TelemetrySourceKind;
+  sourceLabel: string;
+  // Catalogue ids currently subscribed
+  enabledIds: string[];
+  setItemEnabled: (id: string, enabled: boolean) => void;
+  resetEnabledItems: () => void;
+  // The size so far is read with useRecordedUpdateCount
+  isRecording: boolean;
+  startRecording: () => void;
+  // Returns what was recorded, or null if nothing was being recorded
+  stopRecording: () => TelemetryRecording | null;
+  // Progress is read with useReplayState
+  isReplaying: boolean;
+  startReplay: (recording: TelemetryRecording, name: string) => void;
+  stopReplay: () => void;
+  pauseReplay: () => void;
+  resumeReplay: () => void;
+  seekReplay: (positionMs: number) => void;
+  setReplaySpeed: (speed: number) => void;
+  // Live data even during a replay, read on demand rather than rendered
+  getLiveSignal: () => SignalState;
+  getHistorySamples: (id: string, sinceMs: number) => TelemetrySample[];
 }
 
-// List of telemetry items to monitor
-export const TELEMETRY_ITEMS = [
-  {id: "S0000003", name: "Starboard Solar Alpha Rotary Joint (SARJ) Angle Position [°]"},
-  { id: "S0000004", name: "Port Solar Alpha Rotary Joint (SARJ) Angle Position [°]" },
-  //{ id: "NODE3000005", name: "Urine Tank [%]" },
-  { id: "P4000007", name: "BGA 1" },
-  //{ id: "P4000008", name: "BGA 2" },
-  { id: "P6000007", name: "BGA 3" },
-  //{ id: "P6000008", name: "BGA 4" },
-  { id: "S4000007", name: "BGA 5" },
-  //{ id: "S4000008", name: "BGA 6" },
-  { id: "S6000007", name: "BGA 7" },
-  //{ id: "S6000008", name: "BGA 8" },
-  /*{ id: "S0000018", name: "CMG 1 Active" },
-  { id: "S0000019", name: "CMG 2 Active" },
-  { id: "S0000020", name: "CMG 3 Active" },
-  { id: "S0000021", name: "CMG 4 Active" },
-  { id: "USLAB000018", name: "Cabin Temperature", unit: "°C" },
-  { id: "USLAB000024", name: "Cabin Pressure", unit: "mmHg" },
-  { id: "NODE3000002", name: "O2 Partial Pressure", unit: "mmHg" },
-  { id: "NODE3000003", name: "CO2 Partial Pressure", unit: "mmHg" },*/
-];
 
 // Create the context with default values
 const TelemetryContext = createContext<TelemetryContextType>({
-  telemetryItems: {},
-  signalStatus: 'Disconnected',
-  signalClass: 'bg-warning',
   isConnected: false,
+  sourceKind: 'lightstreamer',
+  sourceLabel: '',
+  enabledIds: [],
+  setItemEnabled: () => {},
+  resetEnabledItems: () => {},
+  isRecording: false,
+  startRecording: () => {},
+  stopRecording: () => null,
+  isReplaying: false,
+  startReplay: () => {},
+  stopReplay: () => {},
+  pauseReplay: () => {},
+  resumeReplay: () => {},
+  seekReplay: () => {},
+  setReplaySpeed: () => {},
+  getLiveSignal: () => INITIAL_SIGNAL_STATE,
+  getHistorySamples: () => [],
 });
 
-// Function to calculate current timestamp similar to the original code
-const calculateCurrentTimestamp = () => {
-  const date = new Date();
-  const hoursUTC = date.getUTCHours();
-  const minutes = date.getUTCMinutes();
-  const seconds = date.getUTCSeconds();
-  
-  const yearFirstDay = new Date(date.getFullYear(), 0, 1);
-  const dayOfYear = Math.floor((date.getTime() - yearFirstDay.getTime()) / 86400000) + 1;
-  
-  return dayOfYear * 24 + hoursUTC + minutes / 60 + seconds / 3600;
+// Read once; NEXT_PUBLIC_ variables are fixed at build time anyway
+const sourceConfig = getTelemetrySourceConfig();
+
+// Builds the display item for a Lightstreamer update, or null for items outside the catalogue
+const createTelemetryItem = (itemId: string, fields: Record<string, string>): TelemetryItem | null => {
+  const itemInfo = getTelemetryDefinition(itemId);
+  if (!itemInfo) return null;
+  const value = fields.Value ?? '';
+  return {
+    id: itemId,
+    name: itemInfo.name,
+    group: itemInfo.group,
+    valueType: itemInfo.valueType,
+    value: value,
+    displayValue: formatTelemetryValue(itemInfo, value),
+    timestamp: fields.TimeStamp ?? '',
+    unit: itemInfo.unit || undefined,
+    lastKnown: false
+  };
 };
 
 // Provider component that will wrap your app and make telemetry data available
 export function TelemetryProvider({ children }: { children: React.ReactNode }) {
-  const [telemetryItems, setTelemetryItems] = useState<Record<string, TelemetryItem>>({});
-  const [signalStatus, setSignalStatus] = useState<string>('Connecting...');
-  const [signalClass, setSignalClass] = useState<string>('bg-warning');
+  // Only whether the signal on screen is AOS; the rest is in signalStore
+  const [isCurrent, setIsCurrent] = useState<boolean>(false);
   const [isConnected, setIsConnected] = useState<boolean>(false);
-  
+  const [enabledIds, setEnabledIds] = useState<string[]>(getDefaultEnabledIds);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const sourceRef = useRef<TelemetrySource | null>(null);
+  const historyRestoredRef = useRef<Promise<void>>(Promise.resolve());
+  const [sourceLabel, setSourceLabel] = useState<string>('');
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [isReplaying, setIsReplaying] = useState<boolean>(false);
+
+  // Live data is tracked even during a replay so stopping it can restore the display
+  const liveItemsRef = useRef<Record<string, TelemetryItem>>({});
+  const replayItemsRef = useRef<Record<string, TelemetryItem>>({});
+  const liveSignalRef = useRef<SignalTracker>(createSignalTracker());
+  const replaySignalRef = useRef<SignalTracker>(createSignalTracker());
+  const lastTimeFieldsRef = useRef<Record<string, string> | null>(null);
+  const recordingRef = useRef<TelemetryRecording | null>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+
+  const record = useCallback((item: string, fields: Record<string, string>) => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    // The count on screen catches up on the next tick
+    recording.updates.push({ at: Date.now() - recording.startedAt, item, fields });
+  }, []);
+
+  // Items are flagged last-known while the signal on screen isn't AOS
+  const markLastKnown = useCallback((item: TelemetryItem): TelemetryItem => {
+    const shown = (playerRef.current ? replaySignalRef : liveSignalRef).current.get();
+    return shown.kind === 'aos' ? item : { ...item, lastKnown: true };
+  }, []);
+
+  const showItems = useCallback((items: Record<string, TelemetryItem>) => {
+    telemetryStore.replaceAll(Object.fromEntries(Object.entries(items).map(([id, item]) => [id, markLastKnown(item)])));
+  }, [markLastKnown]);
+
+  const showSignal = useCallback((signal: SignalState) => {
+    signalStore.set(SIGNAL_KEY, signal);
+    setIsCurrent(signal.kind === 'aos');
+  }, []);
+
+  // Signal events go to the live or replay state; only the one on screen is shown
+  const applySignalEvent = useCallback((target: 'live' | 'replay', event: SignalEvent) => {
+    const tracker = (target === 'live' ? liveSignalRef : replaySignalRef).current;
+    if (!tracker.apply(event)) return;
+    if ((playerRef.current ? 'replay' : 'live') === target) {
+      showSignal(tracker.get());
+    }
+  }, [showSignal]);
+
+  const handleLiveItemUpdate = useCallback((itemId: string, fields: Record<string, string>) => {
+    const item = createTelemetryItem(itemId, fields);
+    if (!item) return;
+
+    // Replays are not added to the history; their timestamps would be wrong
+    const numericValue = item.value === 'true' ? 1 : item.value === 'false' ? 0 : Number(item.value);
+    if (item.value !== '' && Number.isFinite(numericValue)) {
+      telemetryHistory.append(itemId, { timestamp: Date.now(), value: numericValue });
+    }
+
+    record(itemId, fields);
+    liveItemsRef.current = { ...liveItemsRef.current, [itemId]: item };
+    if (!playerRef.current) {
+      telemetryStore.set(itemId, markLastKnown(item));
+    }
+  }, [record, markLastKnown]);
+
+  const handleLiveTimeUpdate = useCallback((fields: Record<string, string>, observedAt: number) => {
+    lastTimeFieldsRef.current = fields;
+    record(TIME_ITEM_ID, fields);
+    applySignalEvent('live', { type: 'time', fields, observedAt, at: Date.now() });
+  }, [record, applySignalEvent]);
+
+  const handleConnectionChange = useCallback((connected: boolean) => {
+    setIsConnected(connected);
+    applySignalEvent('live', { type: 'connection', connected, at: Date.now() });
+  }, [applySignalEvent]);
+
+  // Notice when time updates stop arriving
   useEffect(() => {
-    // Initialize the Lightstreamer client
-    const lsClient = new LightstreamerClient("https://push.lightstreamer.com", "ISSLIVE");
-    lsClient.connectionOptions.setSlowingEnabled(false);
-
-    // Create a subscription for all telemetry items
-    const telemetryIds = TELEMETRY_ITEMS.map(item => item.id);
-    const telemetrySub = new Subscription("MERGE", telemetryIds, ["TimeStamp", "Value"]);
-
-    // Create a subscription for the time signal
-    const timeSub = new Subscription('MERGE', 'TIME_000001', ['TimeStamp', 'Value', 'Status.Class', 'Status.Indicator']);
-
-    // Add connection status listener
-    lsClient.addListener({
-      onStatusChange: function(status) {
-        console.log(`Connection status: ${status}`);
-        setIsConnected(status === "CONNECTED:STREAM-SENSING");
+    const timer = setInterval(() => {
+      const at = Date.now();
+      applySignalEvent('live', { type: 'tick', at });
+      // Replays go stale by their own position, so a paused one never does
+      const player = playerRef.current;
+      if (player) {
+        applySignalEvent('replay', { type: 'tick', at, clock: player.getState().positionMs });
       }
-    });
+      if (recordingRef.current) {
+        recordingStore.set(RECORDED_COUNT_KEY, recordingRef.current.updates.length);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [applySignalEvent]);
 
-    // Add listener for the telemetry data
-    telemetrySub.addListener({
-      onSubscription: function() {
-        console.log("Subscribed to telemetry data");
-      },
-      onUnsubscription: function() {
-        console.log("Unsubscribed from telemetry data");
-      },
-      onItemUpdate: function(update: ItemUpdate) {
-        const itemId = update.getItemName();
-        const timestamp = update.getValue("TimeStamp");
-        const value = update.getValue("Value");
-        
-        // Find the item in our list
-        const itemInfo = TELEMETRY_ITEMS.find(item => item.id === itemId);
-        
-        if (itemInfo) {
-          setTelemetryItems(prev => ({
-            ...prev,
-            [itemId]: {
-              id: itemId,
-              name: itemInfo.name,
-              value: value,
-              timestamp: timestamp,
-              //unit: itemInfo.unit
-            }
-          }));
+  const startRecording = useCallback(() => {
+    // Start with the current values, since MERGE only sends items when they change
+    const updates: RecordedUpdate[] = Object.values(liveItemsRef.current).map(item => ({
+      at: 0,
+      item: item.id,
+      fields: { TimeStamp: item.timestamp, Value: item.value },
+    }));
+    if (lastTimeFieldsRef.current) {
+      updates.push({ at: 0, item: TIME_ITEM_ID, fields: lastTimeFieldsRef.current });
+    }
+    recordingRef.current = {
+      formatVersion: RECORDING_FORMAT_VERSION,
+      startedAt: Date.now(),
+      durationMs: 0,
+      updates,
+    };
+    recordingStore.set(RECORDED_COUNT_KEY, updates.length);
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback((): TelemetryRecording | null => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+    if (!recording) return null;
+    return { ...recording, durationMs: Date.now() - recording.startedAt };
+  }, []);
+
+  const stopReplay = useCallback(() => {
+    playerRef.current?.stop();
+    playerRef.current = null;
+    replayItemsRef.current = {};
+    replayStore.replaceAll({});
+    setIsReplaying(false);
+    showSignal(liveSignalRef.current.get());
+    showItems(liveItemsRef.current);
+  }, [showItems, showSignal]);
+
+  const startReplay = useCallback((recording: TelemetryRecording, name: string) => {
+    playerRef.current?.stop();
+    replayItemsRef.current = {};
+    telemetryStore.replaceAll({});
+    replaySignalRef.current = createSignalTracker();
+    showSignal(INITIAL_SIGNAL_STATE);
+
+    const handleReplayUpdate = (update: RecordedUpdate) => {
+      if (update.item === TIME_ITEM_ID) {
+        // Judge staleness against when the update was recorded, not now
+        applySignalEvent('replay', {
+          type: 'time',
+          fields: update.fields,
+          observedAt: recording.startedAt + update.at,
+          at: Date.now(),
+          clock: update.at,
+        });
+        return;
+      }
+      const item = createTelemetryItem(update.item, update.fields);
+      if (item) {
+        replayItemsRef.current = { ...replayItemsRef.current, [item.id]: item };
+        telemetryStore.set(item.id, markLastKnown(item));
+      }
+    };
+
+    const player = createReplayPlayer(recording, name, handleReplayUpdate, state => replayStore.set(REPLAY_KEY, state));
+    playerRef.current = player;
+    setIsReplaying(true);
+    player.seek(0);
+    player.play();
+  }, [applySignalEvent, markLastKnown, showSignal]);
+
+  const pauseReplay = useCallback(() => playerRef.current?.pause(), []);
+  const resumeReplay = useCallback(() => playerRef.current?.play(), []);
+  const seekReplay = useCallback((positionMs: number) => playerRef.current?.seek(positionMs), []);
+  const setReplaySpeed = useCallback((speed: number) => playerRef.current?.setSpeed(speed), []);
+
+  const getLiveSignal = useCallback(() => liveSignalRef.current.get(), []);
+  const getHistorySamples = useCallback((id: string, sinceMs: number) => telemetryHistory.getSamples(id, sinceMs), []);
+
+  // Stop the player's timer on unmount
+  useEffect(() => () => playerRef.current?.stop(), []);
+
+  // Load the saved item selection once on the client
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(ENABLED_STORAGE_KEY);
+      if (saved) {
+        const ids: unknown = JSON.parse(saved);
+        if (Array.isArray(ids)) {
+          setEnabledIds(ids.filter((id): id is string => typeof id === 'string' && !!getTelemetryDefinition(id)));
         }
       }
+    } catch (err) {
+      console.error('Failed to load telemetry selection:', err);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Save whenever it changes (but not before the saved one was read)
+  useEffect(() => {
+    if (!isLoaded) return;
+    localStorage.setItem(ENABLED_STORAGE_KEY, JSON.stringify(enabledIds));
+  }, [enabledIds, isLoaded]);
+
+  const setItemEnabled = useCallback((id: string, enabled: boolean) => {
+    setEnabledIds(prev => {
+      const without = prev.filter(existing => existing !== id);
+      if (!enabled) return without;
+      // Keep catalogue order so the subscription and displays stay stable
+      return TELEMETRY_CATALOGUE.map(item => item.id).filter(itemId => itemId === id || without.includes(itemId));
     });
+  }, []);
+
+  const resetEnabledItems = useCallback(() => {
+    setEnabledIds(getDefaultEnabledIds());
+  }, []);
+
+  // Restore the saved history, then save it periodically and when the page is hidden
+  useEffect(() => {
+    let restored = false;
+    historyRestoredRef.current = loadTelemetryHistory()
+      .then(stored => telemetryHistory.restore(stored))
+      .catch(err => console.error('Failed to load telemetry history:', err))
+      .finally(() => {
+        restored = true;
+      });
 
-    // Add listener for the signal status
-    timeSub.addListener({
-      onItemUpdate: function(update: ItemUpdate) {
-        const status = update.getValue('Status.Class');
-        const aosTimestamp = parseFloat(update.getValue('TimeStamp'));
-        const currentTimestamp = calculateCurrentTimestamp();
-        const difference = currentTimestamp - aosTimestamp;
-        
-        if (status === '24') {
-          if (difference > 0.00153680542553047) {
-            setSignalStatus("Stale Signal");
-            setSignalClass("bg-warning");
-          } else {
-            setSignalStatus("Signal Acquired");
-            setSignalClass("bg-success");
-          }
+    const save = () => {
+      // Saving before the restore finished would overwrite the stored history
+      if (!restored) return;
+      saveTelemetryHistory(telemetryHistory.snapshot())
+        .catch(err => console.error('Failed to save telemetry history:', err));
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') save();
+    };
+
+    const timer = setInterval(save, HISTORY_SAVE_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      save();
+    };
+  }, []);
+  
+  // Create and start the configured source once
+  useEffect(() => {
+    const source = createTelemetrySource(sourceConfig, {
+      onUpdate: (itemId, fields, observedAt) => {
+        if (itemId === TIME_ITEM_ID) {
+          handleLiveTimeUpdate(fields, observedAt);
         } else {
-          //Check, it was no signal before
-          setSignalStatus("Signal OK");
-          setSignalClass("bg-success");
+          handleLiveItemUpdate(itemId, fields);
         }
-      }
+      },
+      onConnectionChange: handleConnectionChange,
     });
+    sourceRef.current = source;
+    setSourceLabel(source.label);
+    source.start();
+
+    return () => {
+      sourceRef.current = null;
+      source.stop();
+    };
+  }, [handleLiveItemUpdate, handleLiveTimeUpdate, handleConnectionChange]);
 
-    // Subscribe and connect
-    lsClient.subscribe(telemetrySub);
-    lsClient.subscribe(timeSub);
-    lsClient.connect();
+  // Re-subscribe whenever the enabled items change
+  useEffect(() => {
+    // Drop values for items that are no longer subscribed
+    liveItemsRef.current = Object.fromEntries(
+      Object.entries(liveItemsRef.current).filter(([id]) => enabledIds.includes(id))
+    );
+    if (!playerRef.current) {
+      showItems(liveItemsRef.current);
+    }
+    const source = sourceRef.current;
+    source?.setItems(enabledIds);
 
-    // Cleanup function to unsubscribe when component unmounts
+    // Fill in what the source recorded while this page was closed
+    let cancelled = false;
+    if (source?.loadHistory) {
+      historyRestoredRef.current
+        .then(() => source.loadHistory?.(enabledIds))
+        .then(stored => {
+          if (stored && !cancelled) telemetryHistory.restore(withoutLocalSamples(stored));
+        })
+        .catch(err => console.error('Failed to load telemetry history from the source:', err));
+    }
     return () => {
-      if (lsClient.getStatus() !== 'DISCONNECTED') {
-        lsClient.unsubscribe(telemetrySub);
-        lsClient.unsubscribe(timeSub);
-        lsClient.disconnect();
-      }
+      cancelled = true;
     };
-  }, []); // Empty dependency array means this effect runs once on mount
-
-  // The value that will be given to the context
-  const value = {
-    telemetryItems,
-    signalStatus,
-    signalClass,
-    isConnected
-  };
+  }, [enabledIds, showItems]);
+
+  // Flag or unflag every value when the signal on screen goes in or out of AOS
+  useEffect(() => {
+    showItems(playerRef.current ? replayItemsRef.current : liveItemsRef.current);
+  }, [isCurrent, showItems]);
+
+  // The value that will be given to the context; the same object until one of these changes
+  const value = useMemo(() => ({
+    isConnected,
+    sourceKind: sourceConfig.kind,
+    sourceLabel,
+    enabledIds,
+    setItemEnabled,
+    resetEnabledItems,
+    isRecording,
+    startRecording,
+    stopRecording,
+    isReplaying,
+    startReplay,
+    stopReplay,
+    pauseReplay,
+    resumeReplay,
+    seekReplay,
+    setReplaySpeed,
+    getLiveSignal,
+    getHistorySamples
+  }), [
+    isConnected,
+    sourceLabel,
+    enabledIds,
+    setItemEnabled,
+    resetEnabledItems,
+    isRecording,
+    startRecording,
+    stopRecording,
+    isReplaying,
+    startReplay,
+    stopReplay,
+    pauseReplay,
+    resumeReplay,
+    seekReplay,
+    setReplaySpeed,
+    getLiveSignal,
+    getHistorySamples
+  ]);
 
   // Return provider with the value passed to it
   return (
@@ -187,3 +506,102 @@ export function TelemetryProvider({ children }: { children: React.ReactNode }) {
 export function useTelemetry() {
   return useContext(TelemetryContext);
 }
+
+/**
+ * Reads an item without subscribing, e.g. inside a callback
+ * @param id Telemetry item id
+ * @returns The item as last published, or undefined
+ */
+export function getTelemetryItem(id: string): TelemetryItem | undefined {
+  return telemetryStore.get(id);
+}
+
+/**
+ * One telemetry item, re-rendering only when it changes
+ * @param id Telemetry item id
+ * @returns The item, or undefined until a value arrives
+ */
+export function useTelemetryValue(id: string): TelemetryItem | undefined {
+  const subscribe = useCallback((listener: () => void) => telemetryStore.subscribe(id, listener), [id]);
+  return useSyncExternalStore(subscribe, () => telemetryStore.get(id), () => undefined);
+}
+
+/**
+ * Several telemetry items, re-rendering only when one of them changes
+ * @param ids Telemetry item ids
+ * @returns Their values joined into one string, e.g. as an effect dependency
+ */
+export function useTelemetryValuesKey(ids: string[]): string {
+  const idList = ids.join(',');
+  const subscribe = useCallback((listener: () => void) => {
+    const unsubscribes = idList.split(',').filter(Boolean).map(id => telemetryStore.subscribe(id, listener));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [idList]);
+  const getSnapshot = useCallback(
+    () => idList.split(',').map(id => telemetryStore.get(id)?.value ?? '').join('|'),
+    [idList]
+  );
+  return useSyncExternalStore(subscribe, getSnapshot, () => '');
+}
+
+/**
+ * Every telemetry item on screen, for lists that show them all
+ * @returns Items by id; re-renders when any of them changes
+ */
+export function useTelemetryItems(): Record<string, TelemetryItem> {
+  return useSyncExternalStore(telemetryStore.subscribeAll, telemetryStore.getAll, () => NO_ITEMS);
+}
+
+/**
+ * The signal state on screen, the replay's during a replay
+ * @returns The state; re-renders only when the kind changes
+ */
+export function useSignal(): SignalState {
+  return useSyncExternalStore(
+    signalStore.subscribeAll,
+    () => signalStore.get(SIGNAL_KEY) ?? INITIAL_SIGNAL_STATE,
+    () => INITIAL_SIGNAL_STATE
+  );
+}
+
+/**
+ * Just the kind of the signal on screen, for components that act on it
+ * @returns aos, los, stale or disconnected
+ */
+export function useSignalKind(): SignalKind {
+  return useSignal().kind;
+}
+
+/**
+ * Updates in the recording being made, counted once a second
+ * @returns The count; kept after the recording stops
+ */
+export function useRecordedUpdateCount(): number {
+  const count = useSyncExternalStore(recordingStore.subscribeAll, () => recordingStore.get(RECORDED_COUNT_KEY), () => undefined);
+  return count ?? 0;
+}
+
+/**
+ * Progress of the replay, updated as it plays
+ * @returns The state, or null while showing live data
+ */
+export function useReplayState(): ReplayState | null {
+  const state = useSyncExternalStore(replayStore.subscribeAll, () => replayStore.get(REPLAY_KEY), () => undefined);
+  return state ?? null;
+}
+
+/**
+ * Recent samples of one telemetry item, re-rendering as new ones arrive
+ * @param id Telemetry item id
+ * @param windowMs How far back to return samples
+ * @returns Samples inside the window, oldest first
+ */
+export function useTelemetryHistory(id: string, windowMs: number): TelemetrySample[] {
+  const version = useSyncExternalStore(
+    telemetryHistory.subscribe,
+    () => telemetryHistory.getVersion(id),
+    () => 0
+  );
+  // version is what changes when samples arrive
+  return useMemo(() => telemetryHistory.getSamples(id, Date.now() - windowMs), [id, windowMs, version]);
+}
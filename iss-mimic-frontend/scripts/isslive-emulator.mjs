@@ -0,0 +1,339 @@
+/**
+ * Local stand-in for the ISSLIVE Lightstreamer adapter.
+ *
+ * Speaks enough of Lightstreamer's TLCP protocol over HTTP streaming for
+ * lightstreamer-client-web to create a session and MERGE-subscribe to
+ * ISSLIVE items, with the same item names and fields. Values are generated
+ * (arrays turning through an orbit, steady cabin readings, always in signal)
+ * or played from a file saved with the Record Session button.
+ *
+ *   node scripts/isslive-emulator.mjs [--port 8080] [--replay file.json] [--speed 10]
+ *
+ * Point the app at it with
+ *
+ *   NEXT_PUBLIC_TELEMETRY_LIGHTSTREAMER_URL=http://localhost:8080
+ *   NEXT_PUBLIC_TELEMETRY_FORCED_TRANSPORT=HTTP-STREAMING
+ *
+ * WebSocket transport is not supported, so the client must be forced to
+ * HTTP streaming (otherwise it falls back on its own, after a delay).
+ */
+
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8080' },
+    replay: { type: 'string' },
+    speed: { type: 'string', default: '1' },
+  },
+});
+
+const PORT = Number(args.port);
+const TIME_ITEM_ID = 'TIME_000001';
+const TICK_MS = 1000;
+// Advertised to the client; it reconnects if nothing arrives for longer
+const KEEPALIVE_MS = 5000;
+// Sessions with no stream attached for this long are dropped
+const SESSION_TIMEOUT_MS = 60000;
+
+const catalogue = JSON.parse(readFileSync(new URL('../utils/telemetryCatalogue.json', import.meta.url), 'utf8'));
+const KNOWN_ITEMS = new Set([TIME_ITEM_ID, ...catalogue.items.map(item => item.id)]);
+
+// --- Values -----------------------------------------------------------------
+
+// Same motion as utils/telemetrySources/synthetic.ts
+const ORBIT_MS = 92.9 * 60 * 1000;
+const BGA_IDS = ['P4000007', 'P4000008', 'P6000007', 'P6000008', 'S4000007', 'S4000008', 'S6000007', 'S6000008'];
+const FLOAT_PROFILES = {
+  USLAB000018: { base: 22.5, swing: 0.4 },
+  USLAB000024: { base: 757, swing: 1.5 },
+  NODE3000002: { base: 160, swing: 2 },
+  NODE3000003: { base: 2.5, swing: 0.3 },
+  NODE3000005: { base: 45, swing: 30 },
+};
+
+const wrapDegrees = angle => ((angle % 360) + 360) % 360;
+
+// Hours since the start of the year, as ISSLIVE stamps its updates
+function issTimestamp(date) {
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  return (date.getTime() - yearStart) / 3600000 + 24;
+}
+
+function syntheticValue(itemId, now) {
+  const orbitPhase = (now % ORBIT_MS) / ORBIT_MS;
+  if (itemId === 'S0000003') return wrapDegrees(orbitPhase * 360).toFixed(4);
+  if (itemId === 'S0000004') return wrapDegrees(360 - orbitPhase * 360).toFixed(4);
+  const bgaIndex = BGA_IDS.indexOf(itemId);
+  if (bgaIndex >= 0) return wrapDegrees(bgaIndex * 45 + 30 * Math.sin(2 * Math.PI * orbitPhase + bgaIndex)).toFixed(4);
+  if (/^S00000(18|19|20|21)$/.test(itemId)) return '1';
+  if (itemId === 'USLAB000086') return '7';
+  const profile = FLOAT_PROFILES[itemId];
+  return profile ? (profile.base + profile.swing * Math.sin(2 * Math.PI * orbitPhase)).toFixed(3) : '0';
+}
+
+// Latest fields of every item, updated each tick
+const currentFields = new Map();
+
+function generateTick(now) {
+  const timestamp = String(issTimestamp(new Date(now)));
+  const changed = [];
+  const set = (itemId, fields) => {
+    currentFields.set(itemId, fields);
+    changed.push(itemId);
+  };
+  set(TIME_ITEM_ID, { 'TimeStamp': timestamp, 'Value': timestamp, 'Status.Class': '24', 'Status.Indicator': '1' });
+  for (const itemId of KNOWN_ITEMS) {
+    if (itemId !== TIME_ITEM_ID) set(itemId, { TimeStamp: timestamp, Value: syntheticValue(itemId, now) });
+  }
+  return changed;
+}
+
+// Plays a recording in a loop, returning the items each tick touched
+function createReplayTicker(path, speed) {
+  const recording = JSON.parse(readFileSync(path, 'utf8'));
+  const updates = [...recording.updates].sort((a, b) => a.at - b.at);
+  const duration = Math.max(1, recording.durationMs ?? 0, updates.at(-1)?.at ?? 0);
+  let position = 0;
+  let index = 0;
+
+  return () => {
+    position += TICK_MS * speed;
+    if (position > duration) {
+      position = 0;
+      index = 0;
+    }
+    const changed = [];
+    while (index < updates.length && updates[index].at <= position) {
+      const { item, fields } = updates[index++];
+      currentFields.set(item, fields);
+      changed.push(item);
+    }
+    return changed;
+  };
+}
+
+const tick = args.replay
+  ? createReplayTicker(args.replay, Number(args.speed) || 1)
+  : () => generateTick(Date.now());
+
+// --- TLCP sessions ----------------------------------------------------------
+
+/** @type {Map<string, Session>} */
+const sessions = new Map();
+
+/**
+ * @typedef {object} Subscription
+ * @property {string[]} items
+ * @property {string[]} fields
+ *
+ * @typedef {object} Session
+ * @property {string} id
+ * @property {import('node:http').ServerResponse | null} stream
+ * @property {number} bytesLeft - Until the client's LS_content_length is reached
+ * @property {string[]} pending - Lines waiting for a stream to be bound
+ * @property {Map<number, Subscription>} subscriptions
+ * @property {number} lastActivity
+ */
+
+// Escapes a value the way TLCP expects: empty is "$", specials are %-encoded
+function quote(value) {
+  if (value === null || value === undefined) return '#';
+  if (value === '') return '$';
+  return value.replace(/[%|,\r\n]|^[#$^]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+function send(session, line) {
+  if (!session.stream) {
+    session.pending.push(line);
+    return;
+  }
+  const data = `${line}\r\n`;
+  session.stream.write(data);
+  session.lastActivity = Date.now();
+  session.bytesLeft -= Buffer.byteLength(data);
+  if (session.bytesLeft <= 0) {
+    // Ask the client to rebind on a fresh response
+    session.stream.end('LOOP,0\r\n');
+    session.stream = null;
+  }
+}
+
+function sendItem(session, subId, subscription, itemId) {
+  const fields = currentFields.get(itemId);
+  const itemIndex = subscription.items.indexOf(itemId) + 1;
+  if (!fields || itemIndex === 0) return;
+  const values = subscription.fields.map(name => quote(fields[name] ?? ''));
+  send(session, `U,${subId},${itemIndex},${values.join('|')}`);
+}
+
+function attachStream(session, res, params) {
+  session.stream?.end();
+  session.stream = res;
+  session.bytesLeft = Number(params.get('LS_content_length')) || Infinity;
+  session.lastActivity = Date.now();
+
+  res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' });
+  send(session, `CONOK,${session.id},50000,${KEEPALIVE_MS},*`);
+  send(session, 'SERVNAME,ISSLIVE emulator');
+  send(session, `CLIENTIP,${res.req.socket.remoteAddress ?? ''}`);
+  send(session, 'CONS,unlimited');
+  for (const line of session.pending.splice(0)) send(session, line);
+
+  // Polling clients get what is waiting and come back for more
+  if (params.get('LS_polling') === 'true' && session.stream) {
+    session.stream.end('LOOP,0\r\n');
+    session.stream = null;
+  }
+
+  res.on('close', () => {
+    if (session.stream === res) session.stream = null;
+  });
+}
+
+function handleControl(session, params) {
+  const reqId = params.get('LS_reqId');
+  const op = params.get('LS_op');
+  const subId = Number(params.get('LS_subId'));
+
+  switch (op) {
+    case 'add': {
+      if (params.get('LS_mode') !== 'MERGE') {
+        return `REQERR,${reqId},17,Only MERGE mode is emulated`;
+      }
+      const items = (params.get('LS_group') ?? '').split(' ').filter(Boolean);
+      const unknown = items.find(item => !KNOWN_ITEMS.has(item));
+      if (unknown) {
+        return `REQERR,${reqId},21,Unknown item ${unknown}`;
+      }
+      const subscription = { items, fields: (params.get('LS_schema') ?? '').split(' ').filter(Boolean) };
+      session.subscriptions.set(subId, subscription);
+      send(session, `SUBOK,${subId},${items.length},${subscription.fields.length}`);
+      if (params.get('LS_snapshot') === 'true') {
+        for (const item of items) sendItem(session, subId, subscription, item);
+      }
+      return `REQOK,${reqId}`;
+    }
+    case 'delete':
+      session.subscriptions.delete(subId);
+      send(session, `UNSUB,${subId}`);
+      return `REQOK,${reqId}`;
+    case 'destroy':
+      session.stream?.end('END,31,Destroyed by client\r\n');
+      sessions.delete(session.id);
+      return `REQOK,${reqId}`;
+    default:
+      // Bandwidth constraints, rebinds and the like need no action here
+      return `REQOK,${reqId}`;
+  }
+}
+
+// --- HTTP -------------------------------------------------------------------
+
+const readBody = req => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const server = createServer(async (req, res) => {
+  // The app is served from another origin
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const request = url.pathname.split('/').pop();
+  if (req.method !== 'POST' || !url.pathname.startsWith('/lightstreamer/')) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' }).end('ISSLIVE emulator: TLCP over HTTP only\n');
+    return;
+  }
+
+  const body = await readBody(req);
+  // Control requests may batch several parameter sets, one per line
+  const lines = body.split('\r\n').filter(Boolean);
+  const first = new URLSearchParams(lines[0] ?? '');
+  const sessionId = url.searchParams.get('LS_session') ?? first.get('LS_session');
+
+  if (request === 'create_session.txt') {
+    if (first.get('LS_adapter_set') && first.get('LS_adapter_set') !== 'ISSLIVE') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('CONERR,2,Requested Adapter Set not available\r\n');
+      return;
+    }
+    const session = {
+      id: `S${randomBytes(8).toString('hex')}`,
+      stream: null,
+      bytesLeft: Infinity,
+      pending: [],
+      subscriptions: new Map(),
+      lastActivity: Date.now(),
+    };
+    sessions.set(session.id, session);
+    console.log(`Session ${session.id} created`);
+    attachStream(session, res, first);
+    return;
+  }
+
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (!session) {
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('END,20,Session not found\r\n');
+    return;
+  }
+
+  switch (request) {
+    case 'bind_session.txt':
+      attachStream(session, res, first);
+      break;
+    case 'control.txt':
+      res.writeHead(200, { 'Content-Type': 'text/plain' })
+        .end(lines.map(line => `${handleControl(session, new URLSearchParams(line))}\r\n`).join(''));
+      break;
+    case 'heartbeat.txt':
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('REQOK\r\n');
+      break;
+    default:
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end(`REQERR,${first.get('LS_reqId') ?? 0},22,Unsupported request\r\n`);
+  }
+});
+
+setInterval(() => {
+  const changed = tick();
+  const now = Date.now();
+
+  for (const session of sessions.values()) {
+    if (!session.stream && now - session.lastActivity > SESSION_TIMEOUT_MS) {
+      sessions.delete(session.id);
+      console.log(`Session ${session.id} expired`);
+      continue;
+    }
+    let sent = false;
+    for (const [subId, subscription] of session.subscriptions) {
+      for (const item of changed) {
+        if (subscription.items.includes(item)) {
+          sendItem(session, subId, subscription, item);
+          sent = true;
+        }
+      }
+    }
+    // Keep the stream alive when nothing changed
+    if (!sent && session.stream && now - session.lastActivity >= KEEPALIVE_MS) {
+      send(session, 'PROBE');
+    }
+  }
+}, TICK_MS);
+
+// Fill in every item before the first client arrives
+tick();
+
+server.listen(PORT, () => {
+  console.log(`ISSLIVE emulator on http://localhost:${PORT}${args.replay ? `, replaying ${args.replay}` : ''}`);
+});
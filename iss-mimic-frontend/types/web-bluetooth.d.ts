@@ -6,6 +6,9 @@ interface Navigator {
 interface Bluetooth {
   requestDevice(options: RequestDeviceOptions): Promise<BluetoothDevice>;
   getAvailability(): Promise<boolean>;
+  // Devices this origin was already given permission to. Missing in browsers
+  // without the permissions backend (Chrome before 85, or the flag turned off)
+  getDevices?(): Promise<BluetoothDevice[]>;
 }
 
 interface RequestDeviceOptions {
@@ -29,8 +32,25 @@ interface BluetoothDevice extends EventTarget {
   name?: string;
   gatt?: BluetoothRemoteGATTServer;
   watchingAdvertisements: boolean;
-  watchAdvertisements(): Promise<void>;
-  unwatchAdvertisements(): void;
+  // Optional because only newer browsers implement them
+  watchAdvertisements?(options?: WatchAdvertisementsOptions): Promise<void>;
+  unwatchAdvertisements?(): void;
+  forget?(): Promise<void>;
+  addEventListener(type: 'advertisementreceived', listener: (event: BluetoothAdvertisingEvent) => void): void;
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | AddEventListenerOptions): void;
+  removeEventListener(type: 'advertisementreceived', listener: (event: BluetoothAdvertisingEvent) => void): void;
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | EventListenerOptions): void;
+}
+
+interface WatchAdvertisementsOptions {
+  signal?: AbortSignal;
+}
+
+interface BluetoothAdvertisingEvent extends Event {
+  device: BluetoothDevice;
+  name?: string;
+  rssi?: number;
+  txPower?: number;
 }
 
 interface BluetoothRemoteGATTServer {
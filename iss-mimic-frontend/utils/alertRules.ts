@@ -0,0 +1,306 @@
+import { LED_BUTTON } from './packetSchema';
+import { SignalKind, SignalState, SIGNAL_LABELS } from './signalState';
+import { getTelemetryDefinition } from './telemetryCatalogue';
+import { TelemetrySample } from './telemetryHistory';
+
+/**
+ * User-defined alert rules over live telemetry.
+ *
+ * A rule fires when its condition becomes true, at most once per cooldown,
+ * and can then flash the robot's LEDs or switch the page to a replay.
+ */
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type ComparisonOperator = '>' | '<' | '=' | '!=';
+
+export type AlertCondition =
+  // Latest value compared with a number
+  | { type: 'threshold'; itemId: string; operator: ComparisonOperator; value: number }
+  // Change per minute over the last minute, in the item's unit; angles take the short way round
+  | { type: 'rate'; itemId: string; operator: ComparisonOperator; value: number }
+  // No change in value for this long while the signal is AOS
+  | { type: 'unchanged'; itemId: string; minutes: number }
+  | { type: 'signal'; kind: SignalKind };
+
+export type AlertAction =
+  | { type: 'none' }
+  // Sets a button bit on every connected robot for a while; main.py blinks the LED on LED_BUTTON
+  | { type: 'flashLeds'; button: number; seconds: number }
+  | { type: 'replay'; url: string };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  cooldownMinutes: number;
+  condition: AlertCondition;
+  action: AlertAction;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  message: string;
+  at: number;
+}
+
+// What the evaluator reads each time it runs
+export interface AlertInput {
+  now: number;
+  signal: SignalState;
+  getSamples: (itemId: string, sinceMs: number) => TelemetrySample[];
+}
+
+export const SEVERITY_CLASSES: Record<AlertSeverity, string> = {
+  info: 'bg-info text-dark',
+  warning: 'bg-warning text-dark',
+  critical: 'bg-danger',
+};
+
+export const OPERATOR_LABELS: Record<ComparisonOperator, string> = {
+  '>': 'above',
+  '<': 'below',
+  '=': 'equal to',
+  '!=': 'not equal to',
+};
+
+// Recording the replay action plays unless a rule names another
+export const DEFAULT_REPLAY_URL = '/recordings/orbit.json';
+
+const RATE_WINDOW_MS = 60000;
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'signal-los',
+    name: 'Signal went LOS',
+    enabled: true,
+    severity: 'info',
+    cooldownMinutes: 5,
+    condition: { type: 'signal', kind: 'los' },
+    action: { type: 'none' },
+  },
+  {
+    id: 'sarj-rate',
+    name: 'SARJ turning fast',
+    enabled: false,
+    severity: 'warning',
+    cooldownMinutes: 15,
+    condition: { type: 'rate', itemId: 'S0000004', operator: '>', value: 10 },
+    action: { type: 'flashLeds', button: LED_BUTTON, seconds: 5 },
+  },
+  {
+    id: 'bga-stuck',
+    name: 'BGA 1 not moving',
+    enabled: false,
+    severity: 'warning',
+    cooldownMinutes: 60,
+    condition: { type: 'unchanged', itemId: 'P4000007', minutes: 20 },
+    action: { type: 'none' },
+  },
+];
+
+const compare = (actual: number, operator: ComparisonOperator, expected: number): boolean => {
+  switch (operator) {
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+};
+
+const itemName = (itemId: string): string => getTelemetryDefinition(itemId)?.name ?? itemId;
+
+/**
+ * Describes a condition for the rule list, e.g. "SARJ Port rate above 10 °/min"
+ * @param condition The condition
+ * @returns A short description
+ */
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'threshold': {
+      const unit = getTelemetryDefinition(condition.itemId)?.unit ?? '';
+      return `${itemName(condition.itemId)} ${OPERATOR_LABELS[condition.operator]} ${condition.value}${unit}`;
+    }
+    case 'rate': {
+      const unit = getTelemetryDefinition(condition.itemId)?.unit ?? '';
+      return `${itemName(condition.itemId)} rate ${OPERATOR_LABELS[condition.operator]} ${condition.value}${unit}/min`;
+    }
+    case 'unchanged':
+      return `${itemName(condition.itemId)} unchanged for ${condition.minutes} min`;
+    case 'signal':
+      return `Signal is ${SIGNAL_LABELS[condition.kind]}`;
+  }
+}
+
+/**
+ * Change per minute of an item over the last minute of its history
+ * @returns The rate, or null with fewer than two samples to go on
+ */
+function ratePerMinute(itemId: string, input: AlertInput): number | null {
+  const samples = input.getSamples(itemId, input.now - 2 * RATE_WINDOW_MS);
+  if (samples.length < 2) return null;
+
+  const last = samples[samples.length - 1];
+  // Oldest sample inside the window, or the one before the latest if they are further apart
+  const first = samples.find(sample => sample.timestamp >= last.timestamp - RATE_WINDOW_MS && sample !== last)
+    ?? samples[samples.length - 2];
+  const minutes = (last.timestamp - first.timestamp) / 60000;
+  if (minutes <= 0) return null;
+
+  let change = last.value - first.value;
+  if (getTelemetryDefinition(itemId)?.valueType === 'angle') {
+    change = ((change % 360) + 540) % 360 - 180;
+  }
+  return Math.abs(change) / minutes;
+}
+
+/**
+ * Checks whether a condition holds right now
+ * @param condition The condition
+ * @param input Current telemetry
+ * @returns Null when it doesn't, otherwise a message for the event log
+ */
+export function evaluateCondition(condition: AlertCondition, input: AlertInput): string | null {
+  switch (condition.type) {
+    case 'threshold': {
+      const samples = input.getSamples(condition.itemId, 0);
+      const latest = samples[samples.length - 1];
+      if (!latest || !compare(latest.value, condition.operator, condition.value)) return null;
+      return `${describeCondition(condition)} (now ${latest.value})`;
+    }
+
+    case 'rate': {
+      const rate = ratePerMinute(condition.itemId, input);
+      if (rate === null || !compare(rate, condition.operator, condition.value)) return null;
+      return `${describeCondition(condition)} (now ${rate.toFixed(2)}/min)`;
+    }
+
+    case 'unchanged': {
+      // Nothing changes during LOS, which has its own condition
+      if (input.signal.kind !== 'aos') return null;
+      const windowMs = condition.minutes * 60000;
+      const samples = input.getSamples(condition.itemId, 0);
+      if (samples.length === 0 || samples[0].timestamp > input.now - windowMs) return null;
+      const latest = samples[samples.length - 1].value;
+      for (let i = samples.length - 1; i >= 0 && samples[i].timestamp >= input.now - windowMs; i--) {
+        if (samples[i].value !== latest) return null;
+      }
+      return describeCondition(condition);
+    }
+
+    case 'signal':
+      return input.signal.kind === condition.kind ? describeCondition(condition) : null;
+  }
+}
+
+export interface AlertEvaluator {
+  // Returns the events for rules that fired since the last call
+  evaluate: (rules: AlertRule[], input: AlertInput) => AlertEvent[];
+}
+
+/**
+ * Creates an evaluator that remembers which conditions held last time and
+ * when each rule last fired
+ */
+export function createAlertEvaluator(): AlertEvaluator {
+  const active = new Set<string>();
+  const lastFiredAt = new Map<string, number>();
+
+  return {
+    evaluate(rules, input) {
+      const events: AlertEvent[] = [];
+      for (const rule of rules) {
+        const message = rule.enabled ? evaluateCondition(rule.condition, input) : null;
+        if (message === null) {
+          active.delete(rule.id);
+          continue;
+        }
+        // Only the change from false to true fires
+        if (active.has(rule.id)) continue;
+        active.add(rule.id);
+
+        const previous = lastFiredAt.get(rule.id);
+        if (previous !== undefined && input.now - previous < rule.cooldownMinutes * 60000) continue;
+        lastFiredAt.set(rule.id, input.now);
+        events.push({
+          id: `${rule.id}-${input.now}`,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          severity: rule.severity,
+          message,
+          at: input.now,
+        });
+      }
+      return events;
+    },
+  };
+}
+
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const OPERATORS: ComparisonOperator[] = ['>', '<', '=', '!='];
+const SIGNAL_KINDS: SignalKind[] = ['aos', 'los', 'stale', 'disconnected'];
+
+const normalizeCondition = (value: unknown): AlertCondition | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const condition = value as Record<string, unknown>;
+  const itemId = typeof condition.itemId === 'string' ? condition.itemId : null;
+  const operator = OPERATORS.includes(condition.operator as ComparisonOperator)
+    ? condition.operator as ComparisonOperator
+    : null;
+
+  switch (condition.type) {
+    case 'threshold':
+    case 'rate':
+      if (!itemId || !operator || !Number.isFinite(condition.value)) return null;
+      return { type: condition.type, itemId, operator, value: condition.value as number };
+    case 'unchanged':
+      if (!itemId || !Number.isFinite(condition.minutes)) return null;
+      return { type: 'unchanged', itemId, minutes: condition.minutes as number };
+    case 'signal':
+      if (!SIGNAL_KINDS.includes(condition.kind as SignalKind)) return null;
+      return { type: 'signal', kind: condition.kind as SignalKind };
+    default:
+      return null;
+  }
+};
+
+const normalizeAction = (value: unknown): AlertAction => {
+  if (typeof value !== 'object' || value === null) return { type: 'none' };
+  const action = value as Record<string, unknown>;
+  if (action.type === 'flashLeds' && Number.isInteger(action.button) && Number.isFinite(action.seconds)) {
+    return { type: 'flashLeds', button: action.button as number, seconds: action.seconds as number };
+  }
+  if (action.type === 'replay') {
+    return { type: 'replay', url: typeof action.url === 'string' && action.url ? action.url : DEFAULT_REPLAY_URL };
+  }
+  return { type: 'none' };
+};
+
+/**
+ * Validates rules loaded from storage, dropping any that are malformed
+ *
+ * @param value Parsed JSON
+ * @returns The usable rules, or the defaults if value is not a list
+ */
+export function normalizeAlertRules(value: unknown): AlertRule[] {
+  if (!Array.isArray(value)) return DEFAULT_ALERT_RULES;
+
+  return value.flatMap((entry): AlertRule[] => {
+    if (typeof entry !== 'object' || entry === null || typeof entry.id !== 'string') return [];
+    const condition = normalizeCondition(entry.condition);
+    if (!condition) return [];
+    return [{
+      id: entry.id,
+      name: typeof entry.name === 'string' ? entry.name : entry.id,
+      enabled: entry.enabled === true,
+      severity: SEVERITIES.includes(entry.severity) ? entry.severity : 'info',
+      cooldownMinutes: Number.isFinite(entry.cooldownMinutes) ? Math.max(0, entry.cooldownMinutes) : 5,
+      condition,
+      action: normalizeAction(entry.action),
+    }];
+  });
+}
@@ -0,0 +1,143 @@
+import * as satellite from 'satellite.js';
+
+/**
+ * The ISS ground track: sub-satellite points sampled along the orbit,
+ * propagated from the TLE with satellite.js.
+ */
+
+export interface GroundTrackPoint {
+  lat: number;
+  lon: number;
+  // Height above the ellipsoid in km
+  alt: number;
+  // ISO time
+  timestamp: string;
+}
+
+// A run of points that can be drawn as one line; segments end at the antimeridian
+export type GroundTrackSegment = GroundTrackPoint[];
+
+export interface GroundTrack {
+  generatedAt: string;
+  stepSeconds: number;
+  // Minutes per revolution, from the TLE's mean motion
+  periodMinutes: number;
+  // Before generatedAt, oldest first
+  past: GroundTrackSegment[];
+  // From generatedAt on
+  future: GroundTrackSegment[];
+}
+
+export interface GroundTrackOptions {
+  pastMinutes: number;
+  futureOrbits: number;
+  stepSeconds: number;
+}
+
+export const DEFAULT_GROUND_TRACK_OPTIONS: GroundTrackOptions = {
+  pastMinutes: 90,
+  futureOrbits: 3,
+  stepSeconds: 60,
+};
+
+// Keeps a single request from asking for millions of points
+export const MAX_GROUND_TRACK_POINTS = 10000;
+
+/**
+ * Minutes per revolution of a satellite
+ * @param satrec Parsed TLE
+ * @returns The period
+ */
+export function orbitalPeriodMinutes(satrec: satellite.SatRec): number {
+  // no is the mean motion in radians per minute
+  return (2 * Math.PI) / satrec.no;
+}
+
+/**
+ * Sub-satellite point at a moment
+ * @param satrec Parsed TLE
+ * @param date When
+ * @returns The point, or null if propagation failed (e.g. a decayed TLE)
+ */
+export function propagateGroundPoint(satrec: satellite.SatRec, date: Date): GroundTrackPoint | null {
+  const positionAndVelocity = satellite.propagate(satrec, date);
+  if (!positionAndVelocity) return null;
+  const geodetic = satellite.eciToGeodetic(positionAndVelocity.position, satellite.gstime(date));
+  return {
+    lat: satellite.degreesLat(geodetic.latitude),
+    lon: satellite.degreesLong(geodetic.longitude),
+    alt: geodetic.height,
+    timestamp: date.toISOString(),
+  };
+}
+
+/**
+ * Splits a run of points wherever it crosses ±180° longitude
+ *
+ * Each side gets a point interpolated onto the antimeridian, so the drawn
+ * segments meet the edges of the map.
+ *
+ * @param points Consecutive points
+ * @returns One or more segments
+ */
+export function splitAtAntimeridian(points: GroundTrackPoint[]): GroundTrackSegment[] {
+  const segments: GroundTrackSegment[] = [];
+  let current: GroundTrackSegment = [];
+
+  points.forEach((point, i) => {
+    const previous = points[i - 1];
+    if (previous && Math.abs(point.lon - previous.lon) > 180) {
+      // Unwrap the longitude so the crossing can be interpolated
+      const edge = previous.lon > 0 ? 180 : -180;
+      const unwrappedLon = point.lon + (edge > 0 ? 360 : -360);
+      const fraction = (edge - previous.lon) / (unwrappedLon - previous.lon);
+      const lat = previous.lat + (point.lat - previous.lat) * fraction;
+      const alt = previous.alt + (point.alt - previous.alt) * fraction;
+      const time = new Date(previous.timestamp).getTime()
+        + (new Date(point.timestamp).getTime() - new Date(previous.timestamp).getTime()) * fraction;
+      const timestamp = new Date(time).toISOString();
+
+      current.push({ lat, lon: edge, alt, timestamp });
+      segments.push(current);
+      current = [{ lat, lon: -edge, alt, timestamp }];
+    }
+    current.push(point);
+  });
+
+  if (current.length > 0) segments.push(current);
+  return segments;
+}
+
+/**
+ * Samples the ground track around a moment
+ * @param satrec Parsed TLE
+ * @param now The split between past and future
+ * @param options Window and step
+ * @returns Past and future segments
+ */
+export function computeGroundTrack(satrec: satellite.SatRec, now: Date, options: GroundTrackOptions): GroundTrack {
+  const periodMinutes = orbitalPeriodMinutes(satrec);
+  const stepMs = options.stepSeconds * 1000;
+  const startMs = now.getTime() - options.pastMinutes * 60000;
+  const endMs = now.getTime() + options.futureOrbits * periodMinutes * 60000;
+
+  const sample = (fromMs: number, toMs: number): GroundTrackPoint[] => {
+    const points: GroundTrackPoint[] = [];
+    for (let time = fromMs; time < toMs; time += stepMs) {
+      const point = propagateGroundPoint(satrec, new Date(time));
+      if (point) points.push(point);
+    }
+    // Always end exactly on the boundary so past and future meet
+    const last = propagateGroundPoint(satrec, new Date(toMs));
+    if (last) points.push(last);
+    return points;
+  };
+
+  return {
+    generatedAt: now.toISOString(),
+    stepSeconds: options.stepSeconds,
+    periodMinutes,
+    past: options.pastMinutes > 0 ? splitAtAntimeridian(sample(startMs, now.getTime())) : [],
+    future: options.futureOrbits > 0 ? splitAtAntimeridian(sample(now.getTime(), endMs)) : [],
+  };
+}
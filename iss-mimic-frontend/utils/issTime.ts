@@ -0,0 +1,22 @@
+/**
+ * ISSLIVE stamps every update with the time of year in hours (day of year
+ * times 24 plus the UTC hour), so "TimeStamp" values are compared against
+ * the same scale.
+ */
+
+/**
+ * Converts a date to the ISSLIVE timestamp scale
+ * @param date The time to convert; defaults to now
+ * @returns Hours since the start of the year, counting January 1st as day 1
+ */
+export function calculateIssTimestamp(date: Date = new Date()): number {
+  // Both the year start and the hours must be UTC, or the result is off by the timezone offset
+  const yearFirstDay = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const dayOfYear = Math.floor((date.getTime() - yearFirstDay) / 86400000) + 1;
+
+  const hoursUTC = date.getUTCHours();
+  const minutes = date.getUTCMinutes();
+  const seconds = date.getUTCSeconds();
+
+  return dayOfYear * 24 + hoursUTC + minutes / 60 + seconds / 3600;
+}
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import * as satellite from 'satellite.js';
+
+/**
+ * The ISS two-line element set, cached in Iss_Tle.json and refreshed from
+ * CelesTrak when older than eight hours. Server-side only.
+ */
+
+export interface ISSJsonData {
+  ISS_TLE_Line1: string;
+  ISS_TLE_Line2: string;
+  timestamp: string;
+}
+
+const TLE_FILE_PATH = path.resolve(process.cwd(), './utils/Iss_Tle.json');
+const TLE_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Reads the cached TLE, fetching a new one first if it is stale
+ *
+ * A failed refresh keeps the cached TLE.
+ *
+ * @returns The TLE lines and when they were fetched
+ */
+export async function loadIssTle(): Promise<ISSJsonData> {
+  let jsonData = JSON.parse(fs.readFileSync(TLE_FILE_PATH, 'utf8')) as ISSJsonData;
+
+  const currentTime = new Date();
+  if ((currentTime.getTime() - new Date(jsonData.timestamp).getTime()) > TLE_MAX_AGE_MS) {
+    const response = await fetch('https://celestrak.org/NORAD/elements/gp.php?CATNR=25544&FORMAT=TLE');
+
+    if (response.ok) {
+      const text = await response.text();
+      const lines = text.trim().split('\n');
+
+      jsonData = {
+        ISS_TLE_Line1: lines[1],
+        ISS_TLE_Line2: lines[2],
+        timestamp: currentTime.toISOString()
+      };
+
+      fs.writeFileSync(TLE_FILE_PATH, JSON.stringify(jsonData, null, 2));
+    }
+  }
+
+  return jsonData;
+}
+
+/**
+ * Parses the cached TLE for satellite.js
+ *
+ * @returns The satellite record and the TLE it came from
+ */
+export async function loadIssSatrec(): Promise<{ satrec: satellite.SatRec; tle: ISSJsonData }> {
+  const tle = await loadIssTle();
+  return { satrec: satellite.twoline2satrec(tle.ISS_TLE_Line1, tle.ISS_TLE_Line2), tle };
+}
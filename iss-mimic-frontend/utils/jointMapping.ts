@@ -0,0 +1,140 @@
+import { RobotAngles } from './robotPackets';
+
+// ISS joints the robot can mimic, with the ISSLIVE item that reports each one
+export const ISS_JOINTS = [
+  { id: 'bga1', name: 'BGA 1 (P4)', telemetryId: 'P4000007' },
+  { id: 'bga2', name: 'BGA 2 (P4)', telemetryId: 'P4000008' },
+  { id: 'bga3', name: 'BGA 3 (P6)', telemetryId: 'P6000007' },
+  { id: 'bga4', name: 'BGA 4 (P6)', telemetryId: 'P6000008' },
+  { id: 'bga5', name: 'BGA 5 (S4)', telemetryId: 'S4000007' },
+  { id: 'bga6', name: 'BGA 6 (S4)', telemetryId: 'S4000008' },
+  { id: 'bga7', name: 'BGA 7 (S6)', telemetryId: 'S6000007' },
+  { id: 'bga8', name: 'BGA 8 (S6)', telemetryId: 'S6000008' },
+  { id: 'sarjStarboard', name: 'SARJ Starboard', telemetryId: 'S0000003' },
+  { id: 'sarjPort', name: 'SARJ Port', telemetryId: 'S0000004' },
+] as const;
+
+export type IssJointId = typeof ISS_JOINTS[number]['id'];
+
+export type JointAngles = Partial<Record<IssJointId, number>>;
+
+// How one packet angle slot is driven
+export interface ChannelMapping {
+  joint: IssJointId | null;
+  invert: boolean;
+  offset: number;
+  scale: number;
+}
+
+// One entry per packet angle slot (angle0-angle5)
+export type JointMapping = ChannelMapping[];
+
+export const CHANNEL_COUNT = 6;
+
+const channel = (joint: IssJointId | null): ChannelMapping => ({ joint, invert: false, offset: 0, scale: 1 });
+
+// The assignment the 3D pages have always used. Note that main.py only drives
+// servos from slots 0, 1, 2 and 4.
+export const DEFAULT_JOINT_MAPPING: JointMapping = [
+  channel('bga1'),
+  channel('bga3'),
+  channel('bga5'),
+  channel('bga7'),
+  channel('sarjStarboard'),
+  channel('sarjPort'),
+];
+
+/**
+ * Converts ISS joint angles into packet angles using a mapping
+ *
+ * Inversion mirrors the angle (360 - angle) before scale and offset are applied.
+ *
+ * @param mapping Channel mapping, one entry per packet slot
+ * @param joints Joint angles in degrees; missing joints are sent as 0
+ * @returns Angles ready for createRobotPacket
+ */
+export function mapJointsToAngles(mapping: JointMapping, joints: JointAngles): RobotAngles {
+  const angles: Record<string, number> = {};
+  for (let slot = 0; slot < CHANNEL_COUNT; slot++) {
+    const entry = mapping[slot];
+    if (!entry?.joint) {
+      angles[`angle${slot}`] = 0;
+      continue;
+    }
+    const raw = joints[entry.joint] ?? 0;
+    const oriented = entry.invert ? 360 - raw : raw;
+    angles[`angle${slot}`] = oriented * entry.scale + entry.offset;
+  }
+  return angles as RobotAngles;
+}
+
+/**
+ * Reads joint angles out of ISSLIVE telemetry values
+ *
+ * @param readValue Returns the latest value for a telemetry id, if any
+ * @returns Angles for every joint that has a numeric value
+ */
+export function jointAnglesFromTelemetry(readValue: (telemetryId: string) => string | undefined): JointAngles {
+  const joints: JointAngles = {};
+  for (const joint of ISS_JOINTS) {
+    const raw = readValue(joint.telemetryId);
+    const value = Number(raw);
+    if (raw && !Number.isNaN(value)) {
+      joints[joint.id] = value;
+    }
+  }
+  return joints;
+}
+
+/**
+ * Telemetry items a mapping reads, so callers can resend when one of them changes
+ *
+ * @param mapping Channel mapping, one entry per packet slot
+ * @returns Telemetry ids, each once, in ISS_JOINTS order
+ */
+export function mappedTelemetryIds(mapping: JointMapping): string[] {
+  return ISS_JOINTS
+    .filter(joint => mapping.some(entry => entry?.joint === joint.id))
+    .map(joint => joint.telemetryId);
+}
+
+/**
+ * Validates a mapping loaded from storage, falling back to the default for anything malformed
+ *
+ * @param value Parsed JSON
+ * @returns A complete mapping
+ */
+export function normalizeJointMapping(value: unknown): JointMapping {
+  if (!Array.isArray(value)) return DEFAULT_JOINT_MAPPING;
+  const jointIds = ISS_JOINTS.map(joint => joint.id as string);
+
+  return DEFAULT_JOINT_MAPPING.map((fallback, slot) => {
+    const entry = value[slot];
+    if (typeof entry !== 'object' || entry === null) return fallback;
+    return {
+      joint: entry.joint === null || jointIds.includes(entry.joint) ? entry.joint : fallback.joint,
+      invert: typeof entry.invert === 'boolean' ? entry.invert : fallback.invert,
+      offset: Number.isFinite(entry.offset) ? entry.offset : fallback.offset,
+      scale: Number.isFinite(entry.scale) ? entry.scale : fallback.scale,
+    };
+  });
+}
+
+/**
+ * Joint angles that point the robot at a spot in the sky
+ *
+ * Both SARJs turn to the azimuth and every BGA tilts to the elevation, so the
+ * arrays face that direction once mapped.
+ *
+ * @param azimuth Degrees clockwise from north
+ * @param elevation Degrees above the horizon; below it is held at 0
+ * @returns Angles for every joint
+ */
+export function pointingJointAngles(azimuth: number, elevation: number): JointAngles {
+  const joints: JointAngles = {};
+  const tilt = Math.max(0, elevation);
+  for (const joint of ISS_JOINTS) {
+    joints[joint.id] = joint.id.startsWith('sarj') ? azimuth : tilt;
+  }
+  return joints;
+}
@@ -0,0 +1,181 @@
+/**
+ * Declarative description of every XRP robot packet version.
+ *
+ * The frontend builds and parses packets from these tables, and the field
+ * offsets here must match what `pestolink_adapted.py` reads on the robot.
+ * When the firmware layout changes, add a new version here instead of
+ * editing an existing one.
+ */
+
+// Every packet written to the gamepad characteristic is this long
+export const PACKET_LENGTH = 26;
+
+export type PacketFieldType = 'uint8' | 'uint16le' | 'int16le';
+
+// Which part of a decoded packet a field belongs to
+export type PacketFieldGroup = 'angles' | 'buttons' | 'coordinates';
+
+export interface PacketField {
+  group: PacketFieldGroup;
+  key: string;
+  offset: number;
+  type: PacketFieldType;
+  min: number;
+  max: number;
+  // Encoded units per unit of value, e.g. 10 for tenths of a degree
+  scale: number;
+}
+
+export interface PacketVersionSchema {
+  version: number;
+  description: string;
+  fields: PacketField[];
+}
+
+// Helpers to keep the tables below readable
+const angleField = (index: number, offset: number): PacketField => ({
+  group: 'angles', key: `angle${index}`, offset, type: 'uint16le', min: 0, max: 360, scale: 1,
+});
+
+// Signed tenths of a degree, so -360.0 to 360.0 fits comfortably in an int16
+const signedAngleField = (index: number, offset: number): PacketField => ({
+  group: 'angles', key: `angle${index}`, offset, type: 'int16le', min: -360, max: 360, scale: 10,
+});
+
+const buttonField = (index: number, offset: number): PacketField => ({
+  group: 'buttons', key: `byte${index}`, offset, type: 'uint8', min: 0, max: 255, scale: 1,
+});
+
+const coordinateField = (key: 'x' | 'y', offset: number): PacketField => ({
+  group: 'coordinates', key, offset, type: 'uint8', min: 0, max: 100, scale: 1,
+});
+
+// Buttons at 13-14 and map position at 15-16, shared by every 6-angle format
+const SIX_ANGLE_TRAILER: PacketField[] = [
+  buttonField(0, 13),
+  buttonField(1, 14),
+  coordinateField('x', 15),
+  coordinateField('y', 16),
+];
+
+// Whole-degree angles 0-5 at bytes 1-12
+const SIX_ANGLE_FIELDS: PacketField[] = [
+  angleField(0, 1),
+  angleField(1, 3),
+  angleField(2, 5),
+  angleField(3, 7),
+  angleField(4, 9),
+  angleField(5, 11),
+  ...SIX_ANGLE_TRAILER,
+];
+
+// Signed tenths of a degree at bytes 1-12
+const SIGNED_SIX_ANGLE_FIELDS: PacketField[] = [
+  signedAngleField(0, 1),
+  signedAngleField(1, 3),
+  signedAngleField(2, 5),
+  signedAngleField(3, 7),
+  signedAngleField(4, 9),
+  signedAngleField(5, 11),
+  ...SIX_ANGLE_TRAILER,
+];
+
+export const PACKET_SCHEMAS: Record<number, PacketVersionSchema> = {
+  0x01: {
+    version: 0x01,
+    description: 'Original 4-angle format',
+    fields: [
+      angleField(0, 1),
+      angleField(1, 3),
+      angleField(2, 5),
+      angleField(3, 7),
+      buttonField(0, 9),
+      buttonField(1, 10),
+    ],
+  },
+  0x02: {
+    version: 0x02,
+    description: '6-angle format',
+    fields: SIX_ANGLE_FIELDS,
+  },
+  0x03: {
+    version: 0x03,
+    description: '6-angle format with coordinates',
+    fields: SIX_ANGLE_FIELDS,
+  },
+  0x04: {
+    version: 0x04,
+    description: 'Signed 6-angle format in tenths of a degree',
+    fields: SIGNED_SIX_ANGLE_FIELDS,
+  },
+  // Same layout as 0x04; robots announcing it also answer PING_COMMAND
+  0x05: {
+    version: 0x05,
+    description: 'Signed 6-angle format with ping support',
+    fields: SIGNED_SIX_ANGLE_FIELDS,
+  },
+};
+
+// Version written by createRobotPacket when none is requested. Stays on the
+// integer format so robots that never announce a version keep working.
+export const CURRENT_PACKET_VERSION = 0x03;
+
+// Newest version the frontend can build
+export const LATEST_PACKET_VERSION = 0x05;
+
+// First version whose firmware answers pings; older firmware treats them as a bad pose
+export const PING_MIN_VERSION = 0x05;
+
+/**
+ * Looks up the schema for a packet version
+ *
+ * @param version Packet version byte
+ * @returns Matching schema, or undefined for unknown versions
+ */
+export function getPacketSchema(version: number): PacketVersionSchema | undefined {
+  return PACKET_SCHEMAS[version];
+}
+
+/**
+ * Optional framing carried in the spare bytes of every packet version.
+ *
+ *   byte 17      FRAME_MARKER when framing is present, 0 otherwise
+ *   bytes 18-19  rolling sequence number (uint16, little endian)
+ *   bytes 20-23  reserved, always 0
+ *   bytes 24-25  CRC-16/CCITT-FALSE of bytes 0-23 (little endian)
+ *
+ * Firmware that predates framing ignores these bytes.
+ */
+export const FRAME_MARKER = 0xA5;
+export const FRAME_MARKER_OFFSET = 17;
+export const FRAME_SEQUENCE_OFFSET = 18;
+export const FRAME_CRC_OFFSET = 24;
+
+/**
+ * Acknowledgement the firmware sends on the telemetry characteristic,
+ * in place of the usual 11-byte telemetry text.
+ *
+ *   bytes 0-2   "ACK"
+ *   bytes 4-5   last accepted sequence number (uint16, little endian)
+ *   bytes 6-7   frames accepted since connecting (uint16, wraps)
+ *   bytes 8-9   frames rejected for a bad CRC since connecting (uint16, wraps)
+ */
+export const ACK_PREFIX = 'ACK';
+export const ACK_LENGTH = 11;
+
+/**
+ * Round-trip latency probe. The command takes the place of a pose packet
+ * (PACKET_LENGTH bytes, never framed) and is answered straight away on the
+ * telemetry characteristic.
+ *
+ *   command byte 0      PING_COMMAND
+ *   command bytes 1-2   ping id (uint16, little endian)
+ *
+ *   reply bytes 0-3     "PONG"
+ *   reply bytes 4-5     the ping id echoed back
+ */
+export const PING_COMMAND = 0xF0;
+export const PONG_PREFIX = 'PONG';
+
+// Button bit (byte 1, bit 0) that makes main.py blink the XRP's LED for as long as it is set
+export const LED_BUTTON = 8;
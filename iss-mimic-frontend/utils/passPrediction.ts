@@ -0,0 +1,201 @@
+import * as satellite from 'satellite.js';
+import { isSunlit, sunDirection, sunElevation } from './solar';
+
+/**
+ * Upcoming ISS passes over an observer, propagated from the TLE with
+ * satellite.js.
+ */
+
+export interface Observer {
+  latitude: number;
+  longitude: number;
+  // Metres above sea level
+  altitude: number;
+}
+
+export interface LookAngles {
+  // Degrees clockwise from north
+  azimuth: number;
+  // Degrees above the horizon
+  elevation: number;
+  rangeKm: number;
+}
+
+export interface PassPoint extends LookAngles {
+  // ISO time
+  time: string;
+}
+
+export interface IssPass {
+  // Rises above the horizon
+  aos: PassPoint;
+  // Closest approach, highest in the sky
+  tca: PassPoint;
+  // Sets below the horizon
+  los: PassPoint;
+  maxElevation: number;
+  durationSeconds: number;
+  // Sunlit ISS against a dark sky at some point during the pass
+  visible: boolean;
+  // When it can be seen, if visible
+  visibleStart: string | null;
+  visibleEnd: string | null;
+}
+
+export interface PassPredictionOptions {
+  days: number;
+  // Passes that never get this high are left out
+  minElevation: number;
+}
+
+export const DEFAULT_PASS_PREDICTION_OPTIONS: PassPredictionOptions = {
+  days: 3,
+  minElevation: 10,
+};
+
+export const MAX_PASS_PREDICTION_DAYS = 10;
+
+// The shortest passes last a few minutes, so a coarser scan could skip one
+const SCAN_STEP_MS = 30000;
+const REFINE_TOLERANCE_MS = 1000;
+const VISIBILITY_STEP_MS = 10000;
+// The sky is dark enough once the Sun is past civil twilight
+const DARK_SKY_SUN_ELEVATION = -6;
+
+const DEG = Math.PI / 180;
+
+/**
+ * Where a satellite appears in an observer's sky
+ * @param satrec Parsed TLE
+ * @param observer Who is looking
+ * @param date When
+ * @returns The angles, or null if propagation failed
+ */
+export function lookAngles(satrec: satellite.SatRec, observer: Observer, date: Date): LookAngles | null {
+  const positionAndVelocity = satellite.propagate(satrec, date);
+  if (!positionAndVelocity) return null;
+  const positionEcf = satellite.eciToEcf(positionAndVelocity.position, satellite.gstime(date));
+  const angles = satellite.ecfToLookAngles({
+    latitude: observer.latitude * DEG,
+    longitude: observer.longitude * DEG,
+    height: observer.altitude / 1000,
+  }, positionEcf);
+  return {
+    azimuth: angles.azimuth / DEG,
+    elevation: angles.elevation / DEG,
+    rangeKm: angles.rangeSat,
+  };
+}
+
+/**
+ * Whether the satellite is sunlit while the observer's sky is dark
+ * @param satrec Parsed TLE
+ * @param observer Who is looking
+ * @param date When
+ * @returns True if it could be seen by eye, horizon permitting
+ */
+export function isVisibleAt(satrec: satellite.SatRec, observer: Observer, date: Date): boolean {
+  if (sunElevation(observer.latitude, observer.longitude, date) > DARK_SKY_SUN_ELEVATION) return false;
+  const positionAndVelocity = satellite.propagate(satrec, date);
+  if (!positionAndVelocity) return false;
+  return isSunlit(positionAndVelocity.position, sunDirection(date));
+}
+
+/**
+ * Upcoming passes over an observer
+ * @param satrec Parsed TLE
+ * @param observer Who is looking
+ * @param start Search from
+ * @param options How far ahead and how high
+ * @returns Passes in time order; one already in progress at start is included
+ */
+export function predictPasses(
+  satrec: satellite.SatRec,
+  observer: Observer,
+  start: Date,
+  options: PassPredictionOptions
+): IssPass[] {
+  const elevationAt = (time: number) => lookAngles(satrec, observer, new Date(time))?.elevation ?? -90;
+  const pointAt = (time: number): PassPoint => {
+    const angles = lookAngles(satrec, observer, new Date(time));
+    return {
+      time: new Date(time).toISOString(),
+      azimuth: angles?.azimuth ?? 0,
+      elevation: angles?.elevation ?? -90,
+      rangeKm: angles?.rangeKm ?? 0,
+    };
+  };
+
+  // Narrows a horizon crossing between below and above
+  const refineCrossing = (below: number, above: number) => {
+    while (Math.abs(above - below) > REFINE_TOLERANCE_MS) {
+      const middle = (below + above) / 2;
+      if (elevationAt(middle) > 0) above = middle;
+      else below = middle;
+    }
+    return Math.round(above);
+  };
+
+  // Golden-section search for the highest point
+  const findCulmination = (from: number, to: number) => {
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let a = from;
+    let b = to;
+    while (b - a > REFINE_TOLERANCE_MS) {
+      const c = b - ratio * (b - a);
+      const d = a + ratio * (b - a);
+      if (elevationAt(c) > elevationAt(d)) b = d;
+      else a = c;
+    }
+    return Math.round((a + b) / 2);
+  };
+
+  const buildPass = (aosTime: number, losTime: number): IssPass => {
+    const tcaTime = findCulmination(aosTime, losTime);
+    let visibleStart: number | null = null;
+    let visibleEnd: number | null = null;
+    for (let time = aosTime; time <= losTime; time += VISIBILITY_STEP_MS) {
+      if (isVisibleAt(satrec, observer, new Date(time))) {
+        if (visibleStart === null) visibleStart = time;
+        visibleEnd = time;
+      }
+    }
+    const tca = pointAt(tcaTime);
+    return {
+      aos: pointAt(aosTime),
+      tca,
+      los: pointAt(losTime),
+      maxElevation: tca.elevation,
+      durationSeconds: Math.round((losTime - aosTime) / 1000),
+      visible: visibleStart !== null,
+      visibleStart: visibleStart === null ? null : new Date(visibleStart).toISOString(),
+      visibleEnd: visibleEnd === null ? null : new Date(visibleEnd).toISOString(),
+    };
+  };
+
+  const passes: IssPass[] = [];
+  const startTime = start.getTime();
+  const endTime = startTime + options.days * 86400000;
+
+  let previousTime = startTime;
+  let previousElevation = elevationAt(startTime);
+  // Already above the horizon at the start
+  let aosTime: number | null = previousElevation > 0 ? startTime : null;
+
+  // A pass that rises before the end is followed until it sets
+  for (let time = startTime + SCAN_STEP_MS; time <= endTime || aosTime !== null; time += SCAN_STEP_MS) {
+    const elevation = elevationAt(time);
+    if (aosTime === null && elevation > 0 && previousElevation <= 0) {
+      aosTime = refineCrossing(previousTime, time);
+      if (aosTime > endTime) break;
+    } else if (aosTime !== null && elevation <= 0 && previousElevation > 0) {
+      const pass = buildPass(aosTime, refineCrossing(time, previousTime));
+      if (pass.maxElevation >= options.minElevation) passes.push(pass);
+      aosTime = null;
+    }
+    previousTime = time;
+    previousElevation = elevation;
+  }
+
+  return passes;
+}
@@ -1,65 +1,329 @@
+import {
+  PACKET_LENGTH,
+  CURRENT_PACKET_VERSION,
+  ACK_LENGTH,
+  ACK_PREFIX,
+  FRAME_CRC_OFFSET,
+  FRAME_MARKER,
+  FRAME_MARKER_OFFSET,
+  FRAME_SEQUENCE_OFFSET,
+  LATEST_PACKET_VERSION,
+  PING_COMMAND,
+  PONG_PREFIX,
+  PacketField,
+  PacketVersionSchema,
+  getPacketSchema,
+} from './packetSchema';
+
+export type RobotAngles = { angle0?: number; angle1?: number; angle2?: number; angle3?: number; angle4?: number; angle5?: number };
+export type RobotButtons = { byte0?: number; byte1?: number };
+export type RobotCoordinates = { x?: number; y?: number };
+
+/**
+ * Writes a single schema field into a packet, clamping it to the field's range
+ */
+function writeField(packet: Uint8Array, field: PacketField, rawValue: number): void {
+  const clamped = Math.min(field.max, Math.max(field.min, rawValue));
+  // Whole-unit fields have always truncated; scaled fields round to the nearest step
+  const value = field.scale === 1 ? Math.floor(clamped) : Math.round(clamped * field.scale);
+  packet[field.offset] = value & 0xFF;
+  if (field.type !== 'uint8') {
+    packet[field.offset + 1] = (value >> 8) & 0xFF;
+  }
+}
+
+/**
+ * Reads a single schema field from a packet
+ */
+function readField(packet: Uint8Array, field: PacketField): number {
+  let value = packet[field.offset];
+  if (field.type !== 'uint8') {
+    value |= packet[field.offset + 1] << 8;
+  }
+  if (field.type === 'int16le' && value >= 0x8000) {
+    value -= 0x10000;
+  }
+  return value / field.scale;
+}
+
 /**
  * Creates an XRP robot control packet with support for 0-360 degree angles
+ *
+ * Versions up to 0x03 carry whole degrees in 0-360. Versions 0x04 and 0x05
+ * carry signed angles (-360 to 360) to a tenth of a degree.
  * 
- * @param angles Object with angle values (0-360 degrees)
+ * @param angles Object with angle values in degrees
  * @param buttons Object with button state bytes
+ * @param coordinates Map position (0-100 on each axis)
  * @param keyboardKeys Array of keyboard key codes (optional)
+ * @param version Packet version to encode (see packetSchema.ts)
  * @returns Uint8Array packet ready to send
  */
 export function createRobotPacket({
   angles = { angle0: 0, angle1: 0, angle2: 0, angle3: 0, angle4: 0, angle5: 0 },
   buttons = { byte0: 0, byte1: 0 },
   coordinates = { x: 0, y: 0},
-  keyboardKeys = []
+  keyboardKeys = [],
+  version = CURRENT_PACKET_VERSION
 }: {
-  angles?: { angle0?: number; angle1?: number; angle2?: number; angle3?: number; angle4?: number; angle5?: number };
-  buttons?: { byte0?: number; byte1?: number };
-  coordinates?: { x?: number; y?: number};
+  angles?: RobotAngles;
+  buttons?: RobotButtons;
+  coordinates?: RobotCoordinates;
   keyboardKeys?: number[];
+  version?: number;
 } = {}): Uint8Array {
-  // Create packet - increased size to accommodate 2 bytes per angle
-  const packet = new Uint8Array(26).fill(0);
-  
-  // Set packet version
-  //packet[0] = 0x02; // Updated version to indicate 6-angle format
-  packet[0] = 0x03; // Updated version to indicate 6-angle format with coordinates
-  // Ensure angles are within valid range and convert to integers
-  const angle0 = Math.min(360, Math.max(0, Math.floor(angles.angle0 ?? 0)));
-  const angle1 = Math.min(360, Math.max(0, Math.floor(angles.angle1 ?? 0)));
-  const angle2 = Math.min(360, Math.max(0, Math.floor(angles.angle2 ?? 0)));
-  const angle3 = Math.min(360, Math.max(0, Math.floor(angles.angle3 ?? 0)));
-  const angle4 = Math.min(360, Math.max(0, Math.floor(angles.angle4 ?? 0)));
-  const angle5 = Math.min(360, Math.max(0, Math.floor(angles.angle5 ?? 0)));
-  
-  // Set angle values (each angle uses 2 bytes: low byte first, then high byte)
-  packet[1] = angle0 & 0xFF;         // Angle 0 - low byte
-  packet[2] = (angle0 >> 8) & 0xFF;  // Angle 0 - high byte
-  packet[3] = angle1 & 0xFF;         // Angle 1 - low byte
-  packet[4] = (angle1 >> 8) & 0xFF;  // Angle 1 - high byte
-  packet[5] = angle2 & 0xFF;         // Angle 2 - low byte
-  packet[6] = (angle2 >> 8) & 0xFF;  // Angle 2 - high byte
-  packet[7] = angle3 & 0xFF;         // Angle 3 - low byte
-  packet[8] = (angle3 >> 8) & 0xFF;  // Angle 3 - high byte
-  packet[9] = angle4 & 0xFF;         // Group 1 - low byte
-  packet[10] = (angle4 >> 8) & 0xFF; // Group 1 - high byte
-  packet[11] = angle5 & 0xFF;        // Group 2 - low byte
-  packet[12] = (angle5 >> 8) & 0xFF; // Group 2 - high byte
-  
-  
-  // Set button states
-  packet[13] = buttons.byte0 !== undefined ? buttons.byte0 : 0;
-  packet[14] = buttons.byte1 !== undefined ? buttons.byte1 : 0;
-
-  const x_coord = Math.min(100, Math.max(0, Math.floor(coordinates.x ?? 0)));
-  const y_coord = Math.min(100, Math.max(0, Math.floor(coordinates.y ?? 0)));
-  packet[15] = x_coord;
-  packet[16] = y_coord;
-  
+  const schema = getPacketSchema(version);
+  if (!schema) {
+    throw new Error(`Unknown packet version 0x${version.toString(16).padStart(2, '0')}`);
+  }
 
-  
+  const packet = new Uint8Array(PACKET_LENGTH).fill(0);
+  packet[0] = schema.version;
+
+  // Angles are clamped to 0-360 and floored to whole degrees in v1-v3, or clamped
+  // to -360-360 and rounded to signed tenths in v4 and later; coordinates are
+  // floored and clamped to 0-100 (see packetSchema.ts)
+  const groups: Record<PacketField['group'], Record<string, number | undefined>> = {
+    angles,
+    buttons,
+    coordinates,
+  };
+  for (const field of schema.fields) {
+    writeField(packet, field, groups[field.group][field.key] ?? 0);
+  }
+
+  return packet;
+}
+
+export interface ParsedRobotPacket {
+  version: number;
+  schema: PacketVersionSchema;
+  angles: Required<RobotAngles>;
+  buttons: Required<RobotButtons>;
+  coordinates: Required<RobotCoordinates>;
+  // Present only when the packet carries the optional framing
+  frame?: { sequence: number; crcValid: boolean };
+}
+
+/**
+ * Decodes a packet built by createRobotPacket (or any known version) back into its fields
+ *
+ * @param packet Raw packet bytes
+ * @returns Decoded fields; fields the version does not carry are reported as 0
+ */
+export function parseRobotPacket(packet: Uint8Array | number[]): ParsedRobotPacket {
+  const bytes = packet instanceof Uint8Array ? packet : Uint8Array.from(packet);
+  if (bytes.length === 0) {
+    throw new Error('Cannot parse an empty packet');
+  }
+
+  const schema = getPacketSchema(bytes[0]);
+  if (!schema) {
+    throw new Error(`Unknown packet version 0x${bytes[0].toString(16).padStart(2, '0')}`);
+  }
+  if (bytes.length < PACKET_LENGTH) {
+    throw new Error(`Packet too short: expected ${PACKET_LENGTH} bytes, got ${bytes.length}`);
+  }
+
+  const parsed: ParsedRobotPacket = {
+    version: schema.version,
+    schema,
+    angles: { angle0: 0, angle1: 0, angle2: 0, angle3: 0, angle4: 0, angle5: 0 },
+    buttons: { byte0: 0, byte1: 0 },
+    coordinates: { x: 0, y: 0 },
+  };
+  for (const field of schema.fields) {
+    (parsed[field.group] as Record<string, number>)[field.key] = readField(bytes, field);
+  }
+
+  if (bytes[FRAME_MARKER_OFFSET] === FRAME_MARKER) {
+    parsed.frame = {
+      sequence: bytes[FRAME_SEQUENCE_OFFSET] | (bytes[FRAME_SEQUENCE_OFFSET + 1] << 8),
+      crcValid: verifyPacketFrame(bytes),
+    };
+  }
+
+  return parsed;
+}
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF), matching crc16 in pestolink_adapted.py
+ *
+ * @param bytes Data to checksum
+ * @returns 16-bit CRC
+ */
+export function crc16(bytes: Uint8Array): number {
+  let crc = 0xFFFF;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Adds a sequence number and CRC to the spare bytes of a packet
+ *
+ * @param packet Packet from createRobotPacket (not modified)
+ * @param sequence Rolling sequence number, wrapped to 16 bits
+ * @returns Framed copy of the packet
+ */
+export function framePacket(packet: Uint8Array, sequence: number): Uint8Array {
+  const framed = new Uint8Array(PACKET_LENGTH);
+  framed.set(packet.subarray(0, PACKET_LENGTH));
+  framed.fill(0, FRAME_MARKER_OFFSET);
+
+  framed[FRAME_MARKER_OFFSET] = FRAME_MARKER;
+  framed[FRAME_SEQUENCE_OFFSET] = sequence & 0xFF;
+  framed[FRAME_SEQUENCE_OFFSET + 1] = (sequence >> 8) & 0xFF;
+
+  const crc = crc16(framed.subarray(0, FRAME_CRC_OFFSET));
+  framed[FRAME_CRC_OFFSET] = crc & 0xFF;
+  framed[FRAME_CRC_OFFSET + 1] = (crc >> 8) & 0xFF;
+  return framed;
+}
+
+/**
+ * Checks the CRC of a framed packet
+ *
+ * @param packet Raw packet bytes
+ * @returns True if the packet is framed and its CRC matches
+ */
+export function verifyPacketFrame(packet: Uint8Array): boolean {
+  if (packet.length < PACKET_LENGTH || packet[FRAME_MARKER_OFFSET] !== FRAME_MARKER) {
+    return false;
+  }
+  const expected = packet[FRAME_CRC_OFFSET] | (packet[FRAME_CRC_OFFSET + 1] << 8);
+  return crc16(packet.subarray(0, FRAME_CRC_OFFSET)) === expected;
+}
+
+export interface FrameAck {
+  lastSequence: number;
+  accepted: number;
+  rejected: number;
+}
+
+/**
+ * Decodes a frame acknowledgement notification from the firmware
+ *
+ * @param value Raw telemetry notification
+ * @returns The acknowledgement, or null if the notification is ordinary telemetry
+ */
+export function parseFrameAck(value: DataView): FrameAck | null {
+  if (value.byteLength < ACK_LENGTH) return null;
+  for (let i = 0; i < ACK_PREFIX.length; i++) {
+    if (value.getUint8(i) !== ACK_PREFIX.charCodeAt(i)) return null;
+  }
+  return {
+    lastSequence: value.getUint16(4, true),
+    accepted: value.getUint16(6, true),
+    rejected: value.getUint16(8, true),
+  };
+}
+
+/**
+ * Builds a ping command for measuring round-trip latency
+ *
+ * Only send it to robots that announced PING_MIN_VERSION or later.
+ *
+ * @param id Ping id the robot echoes back (wraps at 16 bits)
+ * @returns Unframed packet ready to send
+ */
+export function createPingPacket(id: number): Uint8Array {
+  const packet = new Uint8Array(PACKET_LENGTH).fill(0);
+  packet[0] = PING_COMMAND;
+  packet[1] = id & 0xFF;
+  packet[2] = (id >> 8) & 0xFF;
   return packet;
 }
 
+/**
+ * Decodes the robot's answer to a ping
+ *
+ * @param value Raw telemetry notification
+ * @returns The echoed ping id, or null if the notification is not a pong
+ */
+export function parsePong(value: DataView): number | null {
+  if (value.byteLength < ACK_LENGTH) return null;
+  for (let i = 0; i < PONG_PREFIX.length; i++) {
+    if (value.getUint8(i) !== PONG_PREFIX.charCodeAt(i)) return null;
+  }
+  return value.getUint16(4, true);
+}
+
+export interface ProtocolCompatibility {
+  compatible: boolean;
+  // Highest version both sides understand, or null if there is none
+  version: number | null;
+  message: string;
+}
+
+/**
+ * Works out which packet version to use with a robot
+ *
+ * The firmware announces the highest version it understands (see
+ * parseProtocolAnnouncement) and is expected to accept every older one.
+ *
+ * @param robotVersion Highest version reported by the robot, or null if it never said
+ * @param preferredVersion Version the frontend would like to send
+ * @returns Compatibility result for display in the UI
+ */
+export function checkProtocolCompatibility(
+  robotVersion: number | null,
+  preferredVersion: number = LATEST_PACKET_VERSION
+): ProtocolCompatibility {
+  if (robotVersion === null) {
+    // Older firmware never announces itself, so stay on the default integer format
+    return {
+      compatible: true,
+      version: Math.min(CURRENT_PACKET_VERSION, preferredVersion),
+      message: 'Robot has not reported a protocol version',
+    };
+  }
+
+  const version = Math.min(robotVersion, preferredVersion);
+  if (!getPacketSchema(version)) {
+    return {
+      compatible: false,
+      version: null,
+      message: `Robot protocol v${robotVersion} is not supported by this frontend`,
+    };
+  }
+
+  return {
+    compatible: true,
+    version,
+    message: version === preferredVersion
+      ? `Protocol v${version}`
+      : `Robot only understands protocol v${robotVersion}; packets will use v${version}`,
+  };
+}
+
+/**
+ * Recognises the firmware's protocol announcement on the telemetry characteristic
+ *
+ * `telemetryPrintProtocolVersion` in pestolink_adapted.py sends "PROTO vN".
+ *
+ * @param text ASCII telemetry text
+ * @returns Announced version, or null if the text is not an announcement
+ */
+export function parseProtocolAnnouncement(text: string): number | null {
+  const match = /^PROTO v(\d+)/.exec(text);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Formats a packet as space-separated hex bytes
+ *
+ * @param packet Raw packet bytes
+ * @returns Hex dump such as "03 5a 00 ..."
+ */
+export function packetToHex(packet: Uint8Array | number[]): string {
+  return Array.from(packet, byte => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
 /**
  * Helper to set a specific button bit
  * 
@@ -76,6 +340,25 @@ export function setButtonBit(currentByte: number, buttonIndex: number, isPressed
   }
 }
 
+/**
+ * Sets extra button bits in an existing packet, leaving everything else as it was
+ *
+ * @param packet Packet from createRobotPacket (not modified)
+ * @param buttons Bits to OR into each button byte
+ * @returns Updated copy, or the packet itself if its version is unknown
+ */
+export function mergeButtons(packet: Uint8Array, buttons: RobotButtons): Uint8Array {
+  const schema = getPacketSchema(packet[0]);
+  if (!schema) return packet;
+  const merged = packet.slice();
+  for (const field of schema.fields) {
+    if (field.group === 'buttons') {
+      merged[field.offset] |= buttons[field.key as keyof RobotButtons] ?? 0;
+    }
+  }
+  return merged;
+}
+
 /**
  * For backward compatibility with axis-based systems (maps 0-255 to 0-360)
  * 
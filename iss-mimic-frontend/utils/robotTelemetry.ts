@@ -0,0 +1,77 @@
+/**
+ * Decodes the 11-byte notifications written by telemetryPrint in
+ * pestolink_adapted.py: 8 ASCII characters, then a 3-byte RGB color.
+ */
+
+export const TELEMETRY_TEXT_LENGTH = 8;
+export const TELEMETRY_LENGTH = 11;
+
+export interface RobotTelemetry {
+  text: string;
+  // CSS hex color chosen by the robot, or null for notifications without one
+  color: string | null;
+  // Parsed from messages like "7.84 V"
+  batteryVoltage: number | null;
+  receivedAt: number;
+}
+
+export interface BatterySample {
+  timestamp: number;
+  voltage: number;
+}
+
+// Samples kept per robot; the firmware reports about twice a second
+export const BATTERY_HISTORY_LIMIT = 240;
+
+const BATTERY_PATTERN = /^(\d+(?:\.\d+)?)\s*V$/;
+
+/**
+ * Reads the text part of a notification, dropping the zero padding
+ * @param value The raw notification
+ * @returns Up to 8 characters of text
+ */
+export function decodeTelemetryText(value: DataView): string {
+  let text = '';
+  for (let i = 0; i < Math.min(TELEMETRY_TEXT_LENGTH, value.byteLength); i++) {
+    const code = value.getUint8(i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+/**
+ * Decodes a telemetry notification into its text, color and any known values
+ * @param value The raw notification
+ * @param receivedAt When it arrived (ms since epoch)
+ * @returns The decoded telemetry
+ */
+export function decodeRobotTelemetry(value: DataView, receivedAt: number = Date.now()): RobotTelemetry {
+  const text = decodeTelemetryText(value);
+
+  let color: string | null = null;
+  if (value.byteLength >= TELEMETRY_LENGTH) {
+    const rgb = (value.getUint8(8) << 16) | (value.getUint8(9) << 8) | value.getUint8(10);
+    color = `#${rgb.toString(16).padStart(6, '0')}`;
+  }
+
+  const batteryMatch = BATTERY_PATTERN.exec(text.trim());
+
+  return {
+    text,
+    color,
+    batteryVoltage: batteryMatch ? Number(batteryMatch[1]) : null,
+    receivedAt,
+  };
+}
+
+/**
+ * Appends a sample to a battery history, keeping at most BATTERY_HISTORY_LIMIT
+ * @param history The existing samples, oldest first
+ * @param sample The new sample
+ * @returns A new history array
+ */
+export function appendBatterySample(history: BatterySample[], sample: BatterySample): BatterySample[] {
+  const next = [...history, sample];
+  return next.length > BATTERY_HISTORY_LIMIT ? next.slice(next.length - BATTERY_HISTORY_LIMIT) : next;
+}
@@ -0,0 +1,76 @@
+import { createRobotPacket } from './robotPackets';
+
+/**
+ * Safety interlocks for a robot link: a low battery or silent link parks the
+ * robot and blocks motion commands until someone acknowledges it.
+ */
+
+export interface SafetySettings {
+  enabled: boolean;
+  // Show a warning below this voltage
+  warningVoltage: number;
+  // Park the robot below this voltage
+  criticalVoltage: number;
+  // Park the robot when no notification arrives for this long
+  telemetryTimeoutSeconds: number;
+}
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = {
+  enabled: true,
+  warningVoltage: 7.0,
+  criticalVoltage: 6.6,
+  telemetryTimeoutSeconds: 5,
+};
+
+export type BatteryLevel = 'unknown' | 'ok' | 'warning' | 'critical';
+
+export type SafetyInterlockReason = 'lowBattery' | 'linkLoss';
+
+export interface SafetyInterlock {
+  reason: SafetyInterlockReason;
+  since: number;
+  message: string;
+}
+
+/**
+ * Classifies a battery reading against the thresholds
+ * @param voltage The latest reading, or null if none has arrived
+ * @param settings The thresholds to use
+ * @returns The battery level
+ */
+export function getBatteryLevel(voltage: number | null, settings: SafetySettings): BatteryLevel {
+  if (voltage === null) return 'unknown';
+  if (voltage < settings.criticalVoltage) return 'critical';
+  if (voltage < settings.warningVoltage) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Builds the interlock record for a reason
+ * @param reason Why motion is being blocked
+ * @param detail The voltage or silent seconds that triggered it
+ * @returns The interlock
+ */
+export function createSafetyInterlock(reason: SafetyInterlockReason, detail: number): SafetyInterlock {
+  return {
+    reason,
+    since: Date.now(),
+    message: reason === 'lowBattery'
+      ? `Battery critical (${detail.toFixed(2)} V). Robot parked.`
+      : `No telemetry for ${Math.round(detail)}s. Robot parked.`,
+  };
+}
+
+/**
+ * The pose a robot is sent when an interlock engages: every servo at 0°
+ * @param version Packet version the robot understands
+ * @returns The packet
+ */
+export function createParkPacket(version?: number): Uint8Array {
+  // createRobotPacket's defaults are all zeros already; spelled out so the pose is obvious
+  return createRobotPacket({
+    angles: { angle0: 0, angle1: 0, angle2: 0, angle3: 0, angle4: 0, angle5: 0 },
+    buttons: { byte0: 0, byte1: 0 },
+    version,
+  });
+}
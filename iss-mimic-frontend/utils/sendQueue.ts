@@ -0,0 +1,144 @@
+/**
+ * Outgoing packet queue for one robot link.
+ *
+ * Writes go out one at a time and no faster than the configured rate, so a
+ * burst of telemetry updates cannot overrun the GATT write queue. Every pose
+ * packet carries the robot's full state, so pending ones are merged down to
+ * the newest instead of being sent in turn.
+ */
+
+export interface SendQueueSettings {
+  maxPacketsPerSecond: number;
+  // Pending packets kept before the oldest is dropped
+  maxDepth: number;
+}
+
+export const DEFAULT_SEND_QUEUE_SETTINGS: SendQueueSettings = {
+  maxPacketsPerSecond: 20,
+  maxDepth: 16,
+};
+
+export interface SendQueueStats {
+  depth: number;
+  sent: number;
+  // Replaced by a newer full-state packet before being sent
+  coalesced: number;
+  // Thrown away because the queue was full or cleared
+  dropped: number;
+  failed: number;
+}
+
+export const EMPTY_SEND_QUEUE_STATS: SendQueueStats = {
+  depth: 0,
+  sent: 0,
+  coalesced: 0,
+  dropped: 0,
+  failed: 0,
+};
+
+export interface EnqueueOptions {
+  // False for packets that must all arrive, such as pings
+  coalesce?: boolean;
+}
+
+export interface SendQueue {
+  enqueue: (packet: Uint8Array, options?: EnqueueOptions) => void;
+  // Drop everything pending, e.g. when the link goes down
+  clear: () => void;
+  resetStats: () => void;
+  getStats: () => SendQueueStats;
+}
+
+interface QueuedPacket {
+  packet: Uint8Array;
+  coalesce: boolean;
+}
+
+/**
+ * @param write Sends one packet; the next is not started until it settles
+ * @param getSettings Read before every write so rate changes apply at once
+ * @param onStats Called whenever the counters or depth change
+ */
+export function createSendQueue(
+  write: (packet: Uint8Array) => Promise<void>,
+  getSettings: () => SendQueueSettings,
+  onStats: (stats: SendQueueStats) => void
+): SendQueue {
+  let pending: QueuedPacket[] = [];
+  let stats: SendQueueStats = EMPTY_SEND_QUEUE_STATS;
+  let busy = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastWriteMs = 0;
+
+  const update = (changes: Partial<SendQueueStats>) => {
+    stats = { ...stats, ...changes, depth: pending.length };
+    onStats(stats);
+  };
+
+  const pump = async () => {
+    if (busy || timer || pending.length === 0) return;
+
+    const interval = 1000 / Math.max(1, getSettings().maxPacketsPerSecond);
+    const wait = lastWriteMs + interval - Date.now();
+    if (wait > 0) {
+      timer = setTimeout(() => {
+        timer = null;
+        pump();
+      }, wait);
+      return;
+    }
+
+    const next = pending.shift()!;
+    busy = true;
+    lastWriteMs = Date.now();
+    update({});
+    try {
+      await write(next.packet);
+      update({ sent: stats.sent + 1 });
+    } catch (error) {
+      console.error('Error sending data:', error);
+      update({ failed: stats.failed + 1 });
+    } finally {
+      busy = false;
+    }
+    pump();
+  };
+
+  return {
+    enqueue(packet, { coalesce = true } = {}) {
+      let coalesced = 0;
+      if (coalesce) {
+        const before = pending.length;
+        pending = pending.filter(queued => !queued.coalesce);
+        coalesced = before - pending.length;
+      }
+      pending.push({ packet, coalesce });
+
+      let dropped = 0;
+      while (pending.length > getSettings().maxDepth) {
+        pending.shift();
+        dropped++;
+      }
+
+      update({ coalesced: stats.coalesced + coalesced, dropped: stats.dropped + dropped });
+      pump();
+    },
+
+    clear() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      const dropped = pending.length;
+      pending = [];
+      update({ dropped: stats.dropped + dropped });
+    },
+
+    resetStats() {
+      stats = EMPTY_SEND_QUEUE_STATS;
+      update({});
+    },
+
+    getStats: () => stats,
+  };
+}
@@ -0,0 +1,143 @@
+import { calculateIssTimestamp } from './issTime';
+
+/**
+ * Whether ISS telemetry is current, driven by the TIME_000001 item.
+ *
+ * ISSLIVE reports Status.Class "24" while the station has a downlink (AOS);
+ * any other class is loss of signal (LOS). Data is stale when the time item
+ * lags the clock or stops arriving, and disconnected when the telemetry
+ * source itself is down.
+ */
+
+export type SignalKind = 'aos' | 'los' | 'stale' | 'disconnected';
+
+export interface SignalState {
+  kind: SignalKind;
+  // When the current kind was entered, ms since epoch
+  since: number;
+  // Last time AOS data arrived, as of when the current kind was entered
+  lastAosAt: number | null;
+  // When the most recent LOS began; kept after AOS returns
+  losAt: number | null;
+}
+
+// When TIME_000001 updates arrived. These change with every update, so they
+// are kept out of SignalState, which only changes on a transition.
+export interface SignalTiming {
+  // On the events' clock
+  lastUpdateAt: number | null;
+  lastAosAt: number | null;
+}
+
+export interface SignalTracker {
+  get: () => SignalState;
+  // Returns true when the state changed
+  apply: (event: SignalEvent) => boolean;
+}
+
+// at is wall-clock time, used for since and losAt. clock, when given, is what
+// staleness is judged by instead: a replay's position, which stops while paused.
+export type SignalEvent =
+  | { type: 'time'; fields: Record<string, string>; observedAt: number; at: number; clock?: number }
+  | { type: 'connection'; connected: boolean; at: number }
+  | { type: 'tick'; at: number; clock?: number };
+
+export const AOS_STATUS_CLASS = '24';
+
+// About 5.5 seconds, in the hours ISSLIVE timestamps use
+const STALE_LAG_HOURS = 0.00153680542553047;
+
+// AOS with no time update for this long counts as stale
+export const STALE_AFTER_MS = 10000;
+
+export const INITIAL_SIGNAL_STATE: SignalState = {
+  kind: 'disconnected',
+  since: 0,
+  lastAosAt: null,
+  losAt: null,
+};
+
+export const SIGNAL_LABELS: Record<SignalKind, string> = {
+  aos: 'Signal Acquired',
+  los: 'Loss of Signal',
+  stale: 'Stale Signal',
+  disconnected: 'Disconnected',
+};
+
+export const SIGNAL_CLASSES: Record<SignalKind, string> = {
+  aos: 'bg-success',
+  los: 'bg-danger',
+  stale: 'bg-warning',
+  disconnected: 'bg-secondary',
+};
+
+/**
+ * Classifies one TIME_000001 update
+ * @param fields The update's fields
+ * @param observedAt When it was current (ms since epoch)
+ * @returns aos, los or stale
+ */
+export function classifyTimeUpdate(fields: Record<string, string>, observedAt: number): SignalKind {
+  if (fields['Status.Class'] !== AOS_STATUS_CLASS) return 'los';
+  const lag = calculateIssTimestamp(new Date(observedAt)) - parseFloat(fields.TimeStamp);
+  return lag > STALE_LAG_HOURS ? 'stale' : 'aos';
+}
+
+const enter = (state: SignalState, kind: SignalKind, at: number, lastAosAt = state.lastAosAt): SignalState => {
+  if (state.kind === kind) return state;
+  return {
+    kind,
+    since: at,
+    lastAosAt,
+    losAt: kind === 'los' ? at : state.losAt,
+  };
+};
+
+/**
+ * Applies an event to the signal state
+ * @param state Current state
+ * @param timing Update times before this event
+ * @param event What happened
+ * @returns The next state; the same object unless the kind changed
+ */
+export function reduceSignalState(state: SignalState, timing: SignalTiming, event: SignalEvent): SignalState {
+  switch (event.type) {
+    case 'connection':
+      // Reconnecting stays disconnected until the time item says otherwise
+      return event.connected ? state : enter(state, 'disconnected', event.at);
+
+    case 'time': {
+      const kind = classifyTimeUpdate(event.fields, event.observedAt);
+      return enter(state, kind, event.at, kind === 'aos' ? event.at : timing.lastAosAt);
+    }
+
+    case 'tick':
+      if (state.kind === 'aos' && timing.lastUpdateAt !== null && (event.clock ?? event.at) - timing.lastUpdateAt > STALE_AFTER_MS) {
+        return enter(state, 'stale', event.at, timing.lastAosAt);
+      }
+      return state;
+  }
+}
+
+/**
+ * Creates a tracker that starts disconnected
+ * @returns The tracker
+ */
+export function createSignalTracker(): SignalTracker {
+  let state = INITIAL_SIGNAL_STATE;
+  let timing: SignalTiming = { lastUpdateAt: null, lastAosAt: null };
+
+  return {
+    get: () => state,
+
+    apply(event) {
+      const next = reduceSignalState(state, timing, event);
+      if (event.type === 'time') {
+        timing = { lastUpdateAt: event.clock ?? event.at, lastAosAt: next.kind === 'aos' ? event.at : timing.lastAosAt };
+      }
+      if (next === state) return false;
+      state = next;
+      return true;
+    },
+  };
+}
@@ -0,0 +1,268 @@
+import { parseRobotPacket, ParsedRobotPacket, verifyPacketFrame } from '../robotPackets';
+import {
+  ACK_LENGTH,
+  ACK_PREFIX,
+  FRAME_MARKER,
+  FRAME_MARKER_OFFSET,
+  LED_BUTTON,
+  PACKET_LENGTH,
+  PING_COMMAND,
+  PONG_PREFIX,
+} from '../packetSchema';
+
+/**
+ * A software stand-in for the XRP running main.py and pestolink_adapted.py.
+ *
+ * It accepts the same packets, drives four virtual servos the same way the
+ * firmware's main loop does, and sends back the same notifications
+ * (battery voltage, protocol announcements and frame acks).
+ */
+
+// Mirrors _PROTOCOL_VERSION and _PROTOCOL_ANNOUNCE_EVERY in the firmware
+const PROTOCOL_VERSION = 0x05;
+const PROTOCOL_ANNOUNCE_EVERY = 10;
+
+const TICK_MS = 50;
+const TELEMETRY_INTERVAL_MS = 500;
+const ACK_INTERVAL_MS = 1000;
+
+// Servos in main.py and the packet slot each one reads
+const SERVO_SLOTS = [
+  { name: 'servo_one', slot: 0 },
+  { name: 'servo_two', slot: 1 },
+  { name: 'servo_three', slot: 2 },
+  { name: 'servo_four', slot: 4 },
+];
+
+// Where servo_one rests when nothing is connected (main.py's else branch)
+const IDLE_SERVO_ONE_ANGLE = 70;
+
+export interface VirtualServo {
+  name: string;
+  slot: number;
+  target: number;
+  position: number;
+}
+
+export interface VirtualRobotState {
+  connected: boolean;
+  servos: VirtualServo[];
+  batteryVoltage: number;
+  // Blinking while the last packet holds LED_BUTTON
+  ledBlinking: boolean;
+  lastPacket: ParsedRobotPacket | null;
+  framesAccepted: number;
+  framesRejected: number;
+}
+
+export interface VirtualRobotSettings {
+  // Degrees per second each servo can turn
+  slewRate: number;
+  // Volts lost per minute while connected
+  batteryDrainPerMinute: number;
+}
+
+export const DEFAULT_VIRTUAL_ROBOT_SETTINGS: VirtualRobotSettings = {
+  slewRate: 120,
+  batteryDrainPerMinute: 0.02,
+};
+
+const FULL_BATTERY_VOLTAGE = 8.2;
+
+// Same folding as main.py: servos only reach 0-180, so 270 becomes 90, and
+// negative v4 angles wrap around first
+const foldServoAngle = (angle: number): number => {
+  const wrapped = ((angle % 360) + 360) % 360;
+  return wrapped <= 180 ? wrapped : 360 - wrapped;
+};
+
+/**
+ * Same 11-byte layout as telemetryPrint: 8 ASCII characters then an RGB color
+ */
+function encodeTelemetry(text: string, color: number): DataView {
+  const bytes = new Uint8Array(11);
+  for (let i = 0; i < 8 && i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  bytes[8] = (color >> 16) & 0xFF;
+  bytes[9] = (color >> 8) & 0xFF;
+  bytes[10] = color & 0xFF;
+  return new DataView(bytes.buffer);
+}
+
+export interface VirtualRobot {
+  getState: () => VirtualRobotState;
+  subscribe: (listener: () => void) => () => void;
+  settings: VirtualRobotSettings;
+  connect: (onNotification: (data: DataView) => void) => void;
+  disconnect: () => void;
+  receive: (packet: Uint8Array) => void;
+  reset: () => void;
+}
+
+export function createVirtualRobot(settings: VirtualRobotSettings = { ...DEFAULT_VIRTUAL_ROBOT_SETTINGS }): VirtualRobot {
+  const initialServos = (): VirtualServo[] => SERVO_SLOTS.map(({ name, slot }) => ({
+    name,
+    slot,
+    target: name === 'servo_one' ? IDLE_SERVO_ONE_ANGLE : 0,
+    position: name === 'servo_one' ? IDLE_SERVO_ONE_ANGLE : 0,
+  }));
+
+  let state: VirtualRobotState = {
+    connected: false,
+    servos: initialServos(),
+    batteryVoltage: FULL_BATTERY_VOLTAGE,
+    ledBlinking: false,
+    lastPacket: null,
+    framesAccepted: 0,
+    framesRejected: 0,
+  };
+
+  const listeners = new Set<() => void>();
+  let notify: ((data: DataView) => void) | null = null;
+  let tickTimer: ReturnType<typeof setInterval> | null = null;
+  let lastTelemetryMs = 0;
+  let lastAckMs = 0;
+  let telemetryCount = 0;
+  let lastSequence = 0;
+
+  const setState = (changes: Partial<VirtualRobotState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  // One pass of main.py's loop plus the servos moving towards their targets
+  const tick = () => {
+    // Nobody is watching or connected, so stop until someone is
+    if (!state.connected && listeners.size === 0 && tickTimer) {
+      clearInterval(tickTimer);
+      tickTimer = null;
+      return;
+    }
+
+    const now = Date.now();
+    const step = settings.slewRate * TICK_MS / 1000;
+
+    const servos = state.servos.map(servo => {
+      let target = servo.target;
+      if (state.connected && state.lastPacket) {
+        const angle = state.lastPacket.angles[`angle${servo.slot}` as keyof ParsedRobotPacket['angles']];
+        target = foldServoAngle(angle);
+      } else if (servo.name === 'servo_one') {
+        target = IDLE_SERVO_ONE_ANGLE;
+      }
+      const delta = target - servo.position;
+      const position = Math.abs(delta) <= step ? target : servo.position + Math.sign(delta) * step;
+      return { ...servo, target, position };
+    });
+
+    const batteryVoltage = state.connected
+      ? Math.max(0, state.batteryVoltage - settings.batteryDrainPerMinute * TICK_MS / 60000)
+      : state.batteryVoltage;
+
+    const buttons = state.lastPacket?.buttons;
+    const buttonBits = ((buttons?.byte1 ?? 0) << 8) | (buttons?.byte0 ?? 0);
+    const ledBlinking = state.connected && ((buttonBits >> LED_BUTTON) & 1) === 1;
+
+    setState({ servos, batteryVoltage, ledBlinking });
+
+    if (!state.connected || !notify) return;
+
+    // telemetryPrintBatteryVoltage, with the protocol announcement interleaved
+    if (now - lastTelemetryMs >= TELEMETRY_INTERVAL_MS) {
+      lastTelemetryMs = now;
+      if (telemetryCount % PROTOCOL_ANNOUNCE_EVERY === 0) {
+        notify(encodeTelemetry(`PROTO v${PROTOCOL_VERSION}`, 0xFFFFFF));
+      } else {
+        notify(encodeTelemetry(`${batteryVoltage.toFixed(2)} V`, 0xFF0000));
+      }
+      telemetryCount++;
+    }
+
+    // sendFrameAck
+    if (now - lastAckMs >= ACK_INTERVAL_MS && state.framesAccepted + state.framesRejected > 0) {
+      lastAckMs = now;
+      const ack = new DataView(new ArrayBuffer(ACK_LENGTH));
+      for (let i = 0; i < ACK_PREFIX.length; i++) {
+        ack.setUint8(i, ACK_PREFIX.charCodeAt(i));
+      }
+      ack.setUint16(4, lastSequence, true);
+      ack.setUint16(6, state.framesAccepted & 0xFFFF, true);
+      ack.setUint16(8, state.framesRejected & 0xFFFF, true);
+      notify(ack);
+    }
+  };
+
+  const ensureTicking = () => {
+    if (!tickTimer) {
+      tickTimer = setInterval(tick, TICK_MS);
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      ensureTicking();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    settings,
+
+    connect(onNotification) {
+      notify = onNotification;
+      telemetryCount = 0;
+      lastSequence = 0;
+      setState({ connected: true, framesAccepted: 0, framesRejected: 0 });
+      ensureTicking();
+    },
+
+    disconnect() {
+      notify = null;
+      setState({ connected: false, lastPacket: null });
+    },
+
+    // Equivalent of PestoLinkAgent.on_write
+    receive(packet) {
+      // Answered straight away, like the firmware does
+      if (packet[0] === PING_COMMAND) {
+        const pong = new DataView(new ArrayBuffer(ACK_LENGTH));
+        for (let i = 0; i < PONG_PREFIX.length; i++) {
+          pong.setUint8(i, PONG_PREFIX.charCodeAt(i));
+        }
+        pong.setUint8(4, packet[1]);
+        pong.setUint8(5, packet[2]);
+        notify?.(pong);
+        return;
+      }
+
+      if (packet[FRAME_MARKER_OFFSET] === FRAME_MARKER) {
+        if (!verifyPacketFrame(packet)) {
+          setState({ framesRejected: state.framesRejected + 1 });
+          return;
+        }
+        setState({ framesAccepted: state.framesAccepted + 1 });
+      }
+
+      try {
+        const parsed = parseRobotPacket(packet);
+        if (parsed.version > PROTOCOL_VERSION) throw new Error('Unsupported version');
+        if (parsed.frame) lastSequence = parsed.frame.sequence;
+        setState({ lastPacket: parsed });
+      } catch {
+        // The firmware falls back to an all-zero v1 packet for anything it does not understand
+        setState({ lastPacket: parseRobotPacket(Uint8Array.from({ length: PACKET_LENGTH }, (_, i) => i === 0 ? 0x01 : 0)) });
+      }
+    },
+
+    reset() {
+      setState({ servos: initialServos(), batteryVoltage: FULL_BATTERY_VOLTAGE });
+    },
+  };
+}
+
+// The robot behind the "Simulator" transport and the simulator page
+export const virtualRobot = createVirtualRobot();
@@ -0,0 +1,153 @@
+import * as satellite from 'satellite.js';
+
+/**
+ * Where the Sun is, for lighting questions about the ISS and observers.
+ *
+ * Uses the Astronomical Almanac's low-precision formula (about 0.01°,
+ * 1950-2050), in the same equatorial frame satellite.js propagates in.
+ */
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SubsolarPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface IssSunlight {
+  inShadow: boolean;
+  // ISO times; null if it does not happen within two orbits
+  nextSunrise: string | null;
+  nextSunset: string | null;
+}
+
+const EARTH_RADIUS_KM = 6378.137;
+const DEG = Math.PI / 180;
+// Every stretch of sunlight or shadow lasts far longer than this
+const SUNLIGHT_STEP_MS = 30000;
+
+/**
+ * Unit vector from the Earth's centre towards the Sun
+ * @param date When
+ * @returns The direction, equatorial (ECI) frame
+ */
+export function sunDirection(date: Date): Vector3 {
+  const n = satellite.jday(date) - 2451545.0;
+  const meanLongitude = (280.460 + 0.9856474 * n) % 360;
+  const meanAnomaly = ((357.528 + 0.9856003 * n) % 360) * DEG;
+  const eclipticLongitude = (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly)) * DEG;
+  const obliquity = (23.439 - 0.0000004 * n) * DEG;
+
+  return {
+    x: Math.cos(eclipticLongitude),
+    y: Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    z: Math.sin(obliquity) * Math.sin(eclipticLongitude),
+  };
+}
+
+/**
+ * Whether a satellite is in sunlight, treating the Earth's shadow as a cylinder
+ * @param positionEci Satellite position in km, ECI
+ * @param sun Direction of the Sun from sunDirection
+ * @returns False while in the Earth's shadow
+ */
+export function isSunlit(positionEci: Vector3, sun: Vector3): boolean {
+  const along = positionEci.x * sun.x + positionEci.y * sun.y + positionEci.z * sun.z;
+  if (along >= 0) return true;
+  // Distance from the shadow's axis
+  const px = positionEci.x - along * sun.x;
+  const py = positionEci.y - along * sun.y;
+  const pz = positionEci.z - along * sun.z;
+  return Math.sqrt(px * px + py * py + pz * pz) > EARTH_RADIUS_KM;
+}
+
+/**
+ * The point on the Earth with the Sun directly overhead
+ * @param date When
+ * @returns Latitude and longitude in degrees
+ */
+export function subsolarPoint(date: Date): SubsolarPoint {
+  const sun = sunDirection(date);
+  const rightAscension = Math.atan2(sun.y, sun.x);
+  const lon = ((((rightAscension - satellite.gstime(date)) / DEG) % 360) + 540) % 360 - 180;
+  return { lat: Math.asin(sun.z) / DEG, lon };
+}
+
+/**
+ * Height of the Sun above the horizon at a point on the Earth
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param subsolar From subsolarPoint; 0 along the terminator
+ * @returns Elevation in degrees
+ */
+export function solarElevationAt(lat: number, lon: number, subsolar: SubsolarPoint): number {
+  const sine = Math.sin(lat * DEG) * Math.sin(subsolar.lat * DEG)
+    + Math.cos(lat * DEG) * Math.cos(subsolar.lat * DEG) * Math.cos((lon - subsolar.lon) * DEG);
+  return Math.asin(Math.max(-1, Math.min(1, sine))) / DEG;
+}
+
+/**
+ * Height of the Sun above an observer's horizon
+ * @param latitude Observer latitude in degrees
+ * @param longitude Observer longitude in degrees
+ * @param date When
+ * @returns Elevation in degrees; below -6 is past civil twilight
+ */
+export function sunElevation(latitude: number, longitude: number, date: Date): number {
+  return solarElevationAt(latitude, longitude, subsolarPoint(date));
+}
+
+/**
+ * Whether the ISS is in the Earth's shadow, and when that next changes
+ *
+ * Around high beta angles the ISS can stay sunlit for days, in which case
+ * there is no sunset (or sunrise) within the search.
+ *
+ * @param satrec Parsed TLE
+ * @param date When
+ * @returns The state, or null if propagation failed
+ */
+export function computeSunlight(satrec: satellite.SatRec, date: Date): IssSunlight | null {
+  const sunlitAt = (time: number): boolean | null => {
+    const positionAndVelocity = satellite.propagate(satrec, new Date(time));
+    if (!positionAndVelocity) return null;
+    return isSunlit(positionAndVelocity.position, sunDirection(new Date(time)));
+  };
+
+  const start = date.getTime();
+  const sunlit = sunlitAt(start);
+  if (sunlit === null) return null;
+
+  // Narrows a change between before and after to a second
+  const refine = (before: number, after: number) => {
+    const sunlitBefore = sunlitAt(before);
+    while (after - before > 1000) {
+      const middle = (before + after) / 2;
+      if (sunlitAt(middle) === sunlitBefore) before = middle;
+      else after = middle;
+    }
+    return new Date(Math.round(after)).toISOString();
+  };
+
+  // Two orbits always hold a sunset and a sunrise, if the ISS passes through shadow at all
+  const end = start + 2 * ((2 * Math.PI) / satrec.no) * 60000;
+  let nextSunrise: string | null = null;
+  let nextSunset: string | null = null;
+  let previous = sunlit;
+  for (let time = start + SUNLIGHT_STEP_MS; time <= end && (!nextSunrise || !nextSunset); time += SUNLIGHT_STEP_MS) {
+    const current = sunlitAt(time);
+    if (current === null) break;
+    if (current !== previous) {
+      const at = refine(time - SUNLIGHT_STEP_MS, time);
+      if (current) nextSunrise ??= at;
+      else nextSunset ??= at;
+    }
+    previous = current;
+  }
+
+  return { inShadow: !sunlit, nextSunrise, nextSunset };
+}
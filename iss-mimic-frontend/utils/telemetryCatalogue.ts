@@ -0,0 +1,79 @@
+import catalogueJson from './telemetryCatalogue.json';
+
+/**
+ * The ISS telemetry items the app knows about, loaded from
+ * telemetryCatalogue.json. Add or describe items there; this module only
+ * types the file and formats values.
+ */
+
+export type TelemetryValueType = 'angle' | 'boolean' | 'enum' | 'float';
+
+export interface TelemetryGroup {
+  id: string;
+  name: string;
+}
+
+export interface TelemetryDefinition {
+  // Lightstreamer item name on the ISSLIVE adapter
+  id: string;
+  name: string;
+  group: string;
+  unit: string;
+  valueType: TelemetryValueType;
+  // Decimal places shown for angles and floats
+  precision: number;
+  // Subscribed unless the user turns it off
+  enabled: boolean;
+  // Display text for boolean and enum raw values
+  labels?: Record<string, string>;
+}
+
+export const TELEMETRY_GROUPS: TelemetryGroup[] = catalogueJson.groups;
+
+export const TELEMETRY_CATALOGUE: TelemetryDefinition[] = catalogueJson.items.map(item => ({
+  ...item,
+  valueType: item.valueType as TelemetryValueType,
+  // JSON inference gives each labels object its own shape
+  labels: item.labels as Record<string, string> | undefined,
+}));
+
+/**
+ * Looks up an item's definition
+ * @param id Telemetry item id, e.g. "S0000003"
+ * @returns The definition, or undefined for items not in the catalogue
+ */
+export function getTelemetryDefinition(id: string): TelemetryDefinition | undefined {
+  return TELEMETRY_CATALOGUE.find(item => item.id === id);
+}
+
+/**
+ * Ids enabled by default in the catalogue file
+ * @returns The ids, in catalogue order
+ */
+export function getDefaultEnabledIds(): string[] {
+  return TELEMETRY_CATALOGUE.filter(item => item.enabled).map(item => item.id);
+}
+
+/**
+ * Formats a raw Lightstreamer value for display, without the unit
+ * @param definition The item's definition
+ * @param rawValue The value as received
+ * @returns Display text
+ */
+export function formatTelemetryValue(definition: TelemetryDefinition, rawValue: string): string {
+  switch (definition.valueType) {
+    case 'angle':
+    case 'float': {
+      const number = Number(rawValue);
+      return Number.isFinite(number) ? number.toFixed(definition.precision) : rawValue;
+    }
+    case 'boolean': {
+      const key = rawValue === 'true' || Number(rawValue) > 0 ? '1' : '0';
+      return definition.labels?.[key] ?? (key === '1' ? 'Yes' : 'No');
+    }
+    case 'enum':
+      return definition.labels?.[String(Number(rawValue))] ?? rawValue;
+    default:
+      return rawValue;
+  }
+}
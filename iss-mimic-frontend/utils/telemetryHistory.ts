@@ -0,0 +1,160 @@
+/**
+ * Recent values of each telemetry item, for charts.
+ *
+ * Every item gets a fixed-size ring buffer, so a tab left open for days uses
+ * the same memory as one opened a minute ago. Samples are stamped with the
+ * time they arrived in the browser.
+ */
+
+export interface TelemetrySample {
+  timestamp: number;
+  value: number;
+}
+
+// Samples kept per item: three hours at ISSLIVE's fastest rate of about 1 Hz
+export const HISTORY_CAPACITY = 12000;
+
+export interface HistoryWindow {
+  label: string;
+  durationMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// One orbit is roughly 93 minutes
+export const HISTORY_WINDOWS: HistoryWindow[] = [
+  { label: '5 min', durationMs: 5 * MINUTE_MS },
+  { label: '15 min', durationMs: 15 * MINUTE_MS },
+  { label: '1 orbit', durationMs: 93 * MINUTE_MS },
+  { label: '3 h', durationMs: 180 * MINUTE_MS },
+];
+
+// What gets written to IndexedDB for one item, oldest first
+export interface StoredHistory {
+  timestamps: number[];
+  values: number[];
+}
+
+interface RingBuffer {
+  timestamps: Float64Array;
+  values: Float64Array;
+  // Index the next sample is written to
+  head: number;
+  length: number;
+  // Bumped on every change so hooks know when to re-read
+  version: number;
+}
+
+export interface TelemetryHistory {
+  append: (id: string, sample: TelemetrySample) => void;
+  // Samples newer than sinceMs, oldest first
+  getSamples: (id: string, sinceMs?: number) => TelemetrySample[];
+  getVersion: (id: string) => number;
+  subscribe: (listener: () => void) => () => void;
+  // Merge samples loaded from storage with anything received since
+  restore: (stored: Record<string, StoredHistory>) => void;
+  snapshot: () => Record<string, StoredHistory>;
+  clear: () => void;
+}
+
+const createBuffer = (capacity: number): RingBuffer => ({
+  timestamps: new Float64Array(capacity),
+  values: new Float64Array(capacity),
+  head: 0,
+  length: 0,
+  version: 0,
+});
+
+/**
+ * @param capacity Samples kept per item before the oldest are overwritten
+ */
+export function createTelemetryHistory(capacity: number = HISTORY_CAPACITY): TelemetryHistory {
+  const buffers = new Map<string, RingBuffer>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const push = (buffer: RingBuffer, timestamp: number, value: number) => {
+    buffer.timestamps[buffer.head] = timestamp;
+    buffer.values[buffer.head] = value;
+    buffer.head = (buffer.head + 1) % capacity;
+    buffer.length = Math.min(buffer.length + 1, capacity);
+  };
+
+  const read = (buffer: RingBuffer, sinceMs: number): TelemetrySample[] => {
+    const samples: TelemetrySample[] = [];
+    const start = (buffer.head - buffer.length + capacity) % capacity;
+    for (let i = 0; i < buffer.length; i++) {
+      const index = (start + i) % capacity;
+      if (buffer.timestamps[index] > sinceMs) {
+        samples.push({ timestamp: buffer.timestamps[index], value: buffer.values[index] });
+      }
+    }
+    return samples;
+  };
+
+  return {
+    append(id, { timestamp, value }) {
+      let buffer = buffers.get(id);
+      if (!buffer) {
+        buffer = createBuffer(capacity);
+        buffers.set(id, buffer);
+      }
+      push(buffer, timestamp, value);
+      buffer.version++;
+      notify();
+    },
+
+    getSamples(id, sinceMs = 0) {
+      const buffer = buffers.get(id);
+      return buffer ? read(buffer, sinceMs) : [];
+    },
+
+    getVersion: (id) => buffers.get(id)?.version ?? 0,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    restore(stored) {
+      for (const [id, { timestamps, values }] of Object.entries(stored)) {
+        const current = buffers.get(id);
+        const merged: TelemetrySample[] = timestamps.map((timestamp, i) => ({ timestamp, value: values[i] }));
+        if (current) merged.push(...read(current, 0));
+        merged.sort((a, b) => a.timestamp - b.timestamp);
+
+        const buffer = createBuffer(capacity);
+        buffer.version = (current?.version ?? 0) + 1;
+        for (const sample of merged.slice(-capacity)) {
+          push(buffer, sample.timestamp, sample.value);
+        }
+        buffers.set(id, buffer);
+      }
+      notify();
+    },
+
+    snapshot() {
+      const stored: Record<string, StoredHistory> = {};
+      buffers.forEach((buffer, id) => {
+        const samples = read(buffer, 0);
+        stored[id] = {
+          timestamps: samples.map(sample => sample.timestamp),
+          values: samples.map(sample => sample.value),
+        };
+      });
+      return stored;
+    },
+
+    clear() {
+      buffers.forEach(buffer => {
+        buffer.head = 0;
+        buffer.length = 0;
+        buffer.version++;
+      });
+      notify();
+    },
+  };
+}
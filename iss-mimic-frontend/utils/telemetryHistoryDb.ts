@@ -0,0 +1,72 @@
+import { StoredHistory } from './telemetryHistory';
+
+/**
+ * Keeps telemetry history in IndexedDB so charts survive a reload.
+ * One record per item, keyed by its telemetry id.
+ */
+
+const DB_NAME = 'issMimic';
+const DB_VERSION = 1;
+const STORE_NAME = 'telemetryHistory';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Reads every stored item's history
+ * @returns History by telemetry id; empty where IndexedDB is unavailable
+ */
+export async function loadTelemetryHistory(): Promise<Record<string, StoredHistory>> {
+  if (typeof indexedDB === 'undefined') return {};
+
+  const db = await openDatabase();
+  try {
+    return await new Promise((resolve, reject) => {
+      const stored: Record<string, StoredHistory> = {};
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(stored);
+          return;
+        }
+        stored[String(cursor.key)] = cursor.value as StoredHistory;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Replaces the stored history of the given items
+ * @param history History by telemetry id
+ */
+export async function saveTelemetryHistory(history: Record<string, StoredHistory>): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      for (const [id, entry] of Object.entries(history)) {
+        store.put(entry, id);
+      }
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Recorded ISSLIVE sessions and a player that feeds them back at speed.
+ *
+ * A recording is every Lightstreamer item update, in order, with the time it
+ * arrived. Fields are stored exactly as received so a replayed update takes
+ * the same path through TelemetryContext as a live one.
+ */
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+// The signal status item, recorded alongside the telemetry items
+export const TIME_ITEM_ID = 'TIME_000001';
+
+export const REPLAY_SPEEDS = [1, 10, 60];
+
+export interface RecordedUpdate {
+  // Milliseconds since the recording started
+  at: number;
+  item: string;
+  fields: Record<string, string>;
+}
+
+export interface TelemetryRecording {
+  formatVersion: number;
+  // Wall-clock time of the first update, ms since epoch
+  startedAt: number;
+  durationMs: number;
+  updates: RecordedUpdate[];
+}
+
+export interface ReplayState {
+  name: string;
+  positionMs: number;
+  durationMs: number;
+  speed: number;
+  playing: boolean;
+}
+
+export interface ReplayPlayer {
+  play: () => void;
+  pause: () => void;
+  // Jumps to a position, re-sending the latest value of every item up to it
+  seek: (positionMs: number) => void;
+  setSpeed: (speed: number) => void;
+  stop: () => void;
+  getState: () => ReplayState;
+}
+
+// How often the player advances
+const TICK_MS = 100;
+
+/**
+ * Serializes a recording for download
+ * @param recording The recording
+ * @returns A JSON file
+ */
+export function createRecordingFile(recording: TelemetryRecording): Blob {
+  return new Blob([JSON.stringify(recording)], { type: 'application/json' });
+}
+
+/**
+ * Parses a downloaded recording, checking it is one
+ * @param text File contents
+ * @returns The recording, updates sorted by time
+ * @throws Error if the file is not a recording this version understands
+ */
+export function parseRecording(text: string): TelemetryRecording {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  const recording = parsed as Partial<TelemetryRecording>;
+  if (recording.formatVersion !== RECORDING_FORMAT_VERSION) {
+    throw new Error(`Unsupported recording format ${String(recording.formatVersion)}`);
+  }
+  if (typeof recording.startedAt !== 'number' || !Array.isArray(recording.updates)) {
+    throw new Error('Recording is missing its updates');
+  }
+
+  const updates = recording.updates
+    .filter((update): update is RecordedUpdate =>
+      typeof update?.at === 'number' && typeof update.item === 'string' && typeof update.fields === 'object')
+    .sort((a, b) => a.at - b.at);
+
+  return {
+    formatVersion: RECORDING_FORMAT_VERSION,
+    startedAt: recording.startedAt,
+    durationMs: Math.max(recording.durationMs ?? 0, updates.at(-1)?.at ?? 0),
+    updates,
+  };
+}
+
+/**
+ * @param recording What to play
+ * @param name Shown in the controls, usually the file name
+ * @param onUpdate Receives each update as its time comes
+ * @param onState Called when position, speed or play state change
+ */
+export function createReplayPlayer(
+  recording: TelemetryRecording,
+  name: string,
+  onUpdate: (update: RecordedUpdate) => void,
+  onState: (state: ReplayState) => void
+): ReplayPlayer {
+  let state: ReplayState = {
+    name,
+    positionMs: 0,
+    durationMs: recording.durationMs,
+    speed: REPLAY_SPEEDS[0],
+    playing: false,
+  };
+  // Index of the next update to send
+  let nextIndex = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let lastTick = 0;
+
+  const update = (changes: Partial<ReplayState>) => {
+    state = { ...state, ...changes };
+    onState(state);
+  };
+
+  const stopTimer = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const tick = () => {
+    const now = Date.now();
+    const positionMs = Math.min(state.durationMs, state.positionMs + (now - lastTick) * state.speed);
+    lastTick = now;
+
+    while (nextIndex < recording.updates.length && recording.updates[nextIndex].at <= positionMs) {
+      onUpdate(recording.updates[nextIndex]);
+      nextIndex++;
+    }
+
+    if (positionMs >= state.durationMs) {
+      stopTimer();
+      update({ positionMs, playing: false });
+    } else {
+      update({ positionMs });
+    }
+  };
+
+  const player: ReplayPlayer = {
+    play() {
+      if (timer) return;
+      // Playing from the end starts over
+      if (state.positionMs >= state.durationMs) player.seek(0);
+      lastTick = Date.now();
+      timer = setInterval(tick, TICK_MS);
+      update({ playing: true });
+    },
+
+    pause() {
+      stopTimer();
+      update({ playing: false });
+    },
+
+    seek(positionMs) {
+      const clamped = Math.min(state.durationMs, Math.max(0, positionMs));
+      // Only the newest value of each item matters after a jump
+      const latest = new Map<string, RecordedUpdate>();
+      nextIndex = 0;
+      while (nextIndex < recording.updates.length && recording.updates[nextIndex].at <= clamped) {
+        const recorded = recording.updates[nextIndex];
+        latest.set(recorded.item, recorded);
+        nextIndex++;
+      }
+      latest.forEach(recorded => onUpdate(recorded));
+      lastTick = Date.now();
+      update({ positionMs: clamped });
+    },
+
+    setSpeed(speed) {
+      update({ speed });
+    },
+
+    stop() {
+      stopTimer();
+    },
+
+    getState: () => state,
+  };
+
+  return player;
+}
@@ -0,0 +1,109 @@
+import { TELEMETRY_CATALOGUE } from '../telemetryCatalogue';
+import { createTelemetryHistory, StoredHistory, TelemetryHistory } from '../telemetryHistory';
+import { TIME_ITEM_ID } from '../telemetryRecording';
+import { createTlcpClient, TlcpClient } from './tlcpClient';
+
+/**
+ * One upstream ISSLIVE session shared by every browser, kept on the server.
+ *
+ * The relay subscribes to every catalogue item, remembers the latest update
+ * of each and a history of numeric values, and forwards updates to whoever
+ * is listening (the SSE route).
+ */
+
+export interface RelayUpdate {
+  itemId: string;
+  fields: Record<string, string>;
+  // When the relay received it, ms since epoch
+  observedAt: number;
+}
+
+export type RelayEvent =
+  | { type: 'update'; update: RelayUpdate }
+  | { type: 'status'; connected: boolean };
+
+export interface RelaySnapshot {
+  connected: boolean;
+  updates: RelayUpdate[];
+}
+
+export interface TelemetryRelay {
+  subscribe: (listener: (event: RelayEvent) => void) => () => void;
+  getSnapshot: () => RelaySnapshot;
+  // Stored history of the given items, or of all of them
+  getHistory: (itemIds?: string[]) => Record<string, StoredHistory>;
+}
+
+const TELEMETRY_FIELDS = ['TimeStamp', 'Value'];
+const TIME_FIELDS = ['TimeStamp', 'Value', 'Status.Class', 'Status.Indicator'];
+
+function createTelemetryRelay(serverUrl: string, adapterSet: string): TelemetryRelay {
+  const latest = new Map<string, RelayUpdate>();
+  const history: TelemetryHistory = createTelemetryHistory();
+  const listeners = new Set<(event: RelayEvent) => void>();
+  let connected = false;
+
+  const emit = (event: RelayEvent) => listeners.forEach(listener => listener(event));
+
+  const client: TlcpClient = createTlcpClient({
+    serverUrl,
+    adapterSet,
+    subscriptions: [
+      { items: [TIME_ITEM_ID], fields: TIME_FIELDS },
+      { items: TELEMETRY_CATALOGUE.map(item => item.id), fields: TELEMETRY_FIELDS },
+    ],
+    onUpdate(itemId, fields) {
+      const update: RelayUpdate = { itemId, fields, observedAt: Date.now() };
+      latest.set(itemId, update);
+
+      const value = fields.Value;
+      const numericValue = value === 'true' ? 1 : value === 'false' ? 0 : Number(value);
+      if (itemId !== TIME_ITEM_ID && value !== '' && Number.isFinite(numericValue)) {
+        history.append(itemId, { timestamp: update.observedAt, value: numericValue });
+      }
+      emit({ type: 'update', update });
+    },
+    onConnectionChange(isConnected) {
+      if (connected === isConnected) return;
+      connected = isConnected;
+      console.log(`Telemetry relay: upstream ${isConnected ? 'connected' : 'disconnected'}`);
+      emit({ type: 'status', connected });
+    },
+  });
+  client.start();
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getSnapshot: () => ({ connected, updates: Array.from(latest.values()) }),
+
+    getHistory(itemIds) {
+      const stored = history.snapshot();
+      return itemIds ? Object.fromEntries(Object.entries(stored).filter(([id]) => itemIds.includes(id))) : stored;
+    },
+  };
+}
+
+// Kept on globalThis so dev-mode reloads and separate route bundles share one upstream session
+const globalForRelay = globalThis as typeof globalThis & { issMimicTelemetryRelay?: TelemetryRelay };
+
+/**
+ * The relay, started on first use
+ *
+ * Upstream is TELEMETRY_RELAY_UPSTREAM_URL (default ISSLIVE) with adapter set
+ * TELEMETRY_RELAY_ADAPTER_SET, so the relay can sit in front of the local emulator too.
+ */
+export function getTelemetryRelay(): TelemetryRelay {
+  if (!globalForRelay.issMimicTelemetryRelay) {
+    globalForRelay.issMimicTelemetryRelay = createTelemetryRelay(
+      process.env.TELEMETRY_RELAY_UPSTREAM_URL || 'https://push.lightstreamer.com',
+      process.env.TELEMETRY_RELAY_ADAPTER_SET || 'ISSLIVE'
+    );
+  }
+  return globalForRelay.issMimicTelemetryRelay;
+}
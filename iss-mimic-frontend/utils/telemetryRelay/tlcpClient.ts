@@ -0,0 +1,247 @@
+/**
+ * A minimal Lightstreamer (TLCP) client for the server.
+ *
+ * lightstreamer-client-web refuses to load outside a browser, so the relay
+ * speaks the protocol itself: one HTTP-streaming session with fixed MERGE
+ * subscriptions, rebinding when the server asks and starting a new session
+ * after any error.
+ */
+
+const PROTOCOL = 'TLCP-2.5.0';
+// Client identifier from the TLCP specification's examples, for custom clients
+const CLIENT_ID = 'mgQkwtwdysogQz2BJ4Ji kOj2Bg';
+// Bytes per streaming response before the server asks for a rebind
+const CONTENT_LENGTH = 50_000_000;
+const RECONNECT_DELAY_MS = 5000;
+// Extra time allowed past the server's keepalive before the stream counts as dead
+const KEEPALIVE_GRACE_MS = 10000;
+
+export interface TlcpSubscription {
+  items: string[];
+  fields: string[];
+}
+
+export interface TlcpClientOptions {
+  serverUrl: string;
+  adapterSet: string;
+  subscriptions: TlcpSubscription[];
+  onUpdate: (itemId: string, fields: Record<string, string>) => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+export interface TlcpClient {
+  start: () => void;
+  stop: () => void;
+}
+
+// Reverses the %-encoding TLCP applies to field values
+const unquote = (value: string): string => decodeURIComponent(value);
+
+/**
+ * Applies a U line's values to the previous ones of the same item
+ * @param encoded The values part of the line, "|"-separated
+ * @param previous Last known values, one per field
+ * @returns The new values
+ */
+export function decodeUpdateValues(encoded: string, previous: (string | null)[]): (string | null)[] {
+  const values = [...previous];
+  let field = 0;
+  for (const token of encoded.split('|')) {
+    if (token === '') {
+      field++;
+    } else if (token === '#') {
+      values[field++] = null;
+    } else if (token === '$') {
+      values[field++] = '';
+    } else if (token.startsWith('^') && /^\^\d+$/.test(token)) {
+      // ^N: the next N fields are unchanged
+      field += Number(token.slice(1));
+    } else {
+      values[field++] = unquote(token);
+    }
+  }
+  return values;
+}
+
+export function createTlcpClient({
+  serverUrl,
+  adapterSet,
+  subscriptions,
+  onUpdate,
+  onConnectionChange,
+}: TlcpClientOptions): TlcpClient {
+  let running = false;
+  let sessionId: string | null = null;
+  let controlUrl = serverUrl;
+  let abort: AbortController | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let watchdog: ReturnType<typeof setTimeout> | null = null;
+  let keepaliveMs = 5000;
+  let requestId = 0;
+  // Last values per subscription and item, since MERGE updates only carry changes
+  let values = new Map<string, (string | null)[]>();
+
+  const post = (base: string, request: string, params: Record<string, string>, signal?: AbortSignal) =>
+    fetch(`${base.replace(/\/$/, '')}/lightstreamer/${request}.txt?LS_protocol=${PROTOCOL}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      body: new URLSearchParams(params).toString(),
+      signal,
+    });
+
+  const clearWatchdog = () => {
+    if (watchdog) {
+      clearTimeout(watchdog);
+      watchdog = null;
+    }
+  };
+
+  // Restarts the countdown after which a silent stream is given up on
+  const feedWatchdog = () => {
+    clearWatchdog();
+    watchdog = setTimeout(() => {
+      console.log('Telemetry relay: upstream went quiet, reconnecting');
+      abort?.abort();
+    }, keepaliveMs + KEEPALIVE_GRACE_MS);
+  };
+
+  const scheduleReconnect = () => {
+    clearWatchdog();
+    sessionId = null;
+    onConnectionChange(false);
+    if (!running || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      openStream('create_session');
+    }, RECONNECT_DELAY_MS);
+  };
+
+  const subscribeAll = async () => {
+    if (!sessionId) return;
+    const lines = subscriptions.map((subscription, index) => new URLSearchParams({
+      LS_reqId: String(++requestId),
+      LS_op: 'add',
+      LS_subId: String(index + 1),
+      LS_mode: 'MERGE',
+      LS_group: subscription.items.join(' '),
+      LS_schema: subscription.fields.join(' '),
+      LS_snapshot: 'true',
+    }).toString());
+
+    const response = await fetch(
+      `${controlUrl.replace(/\/$/, '')}/lightstreamer/control.txt?LS_protocol=${PROTOCOL}&LS_session=${sessionId}`,
+      { method: 'POST', headers: { 'Content-Type': 'text/plain; charset=utf-8' }, body: lines.join('\r\n') }
+    );
+    const text = await response.text();
+    for (const line of text.split('\r\n').filter(line => line.startsWith('REQERR') || line.startsWith('ERROR'))) {
+      console.error('Telemetry relay: subscription rejected:', line);
+    }
+  };
+
+  const handleLine = (line: string) => {
+    const args = line.split(',');
+    switch (args[0]) {
+      case 'CONOK': {
+        const isNewSession = sessionId !== args[1];
+        sessionId = args[1];
+        keepaliveMs = Number(args[3]) || keepaliveMs;
+        // The server may want control requests sent to another host
+        controlUrl = args[4] && args[4] !== '*' ? `${new URL(serverUrl).protocol}//${args[4]}` : serverUrl;
+        onConnectionChange(true);
+        if (isNewSession) {
+          values = new Map();
+          subscribeAll().catch(err => console.error('Telemetry relay: failed to subscribe:', err));
+        }
+        break;
+      }
+      case 'U': {
+        const [, subId, itemIndex] = args;
+        const subscription = subscriptions[Number(subId) - 1];
+        const itemId = subscription?.items[Number(itemIndex) - 1];
+        if (!subscription || !itemId) break;
+
+        // Everything after the third comma is the values, whatever they contain
+        const encoded = line.split(',').slice(3).join(',');
+        const key = `${subId}:${itemId}`;
+        const next = decodeUpdateValues(encoded, values.get(key) ?? subscription.fields.map(() => null));
+        values.set(key, next);
+        onUpdate(itemId, Object.fromEntries(subscription.fields.map((field, i) => [field, next[i] ?? ''])));
+        break;
+      }
+      case 'CONERR':
+      case 'END':
+      case 'ERROR':
+        console.error('Telemetry relay: upstream closed the session:', line);
+        sessionId = null;
+        break;
+    }
+  };
+
+  // Opens a streaming response and reads it until it ends
+  const openStream = async (request: 'create_session' | 'bind_session') => {
+    if (!running) return;
+    abort = new AbortController();
+    let loop = false;
+
+    try {
+      const params: Record<string, string> = request === 'create_session'
+        ? { LS_adapter_set: adapterSet, LS_cid: CLIENT_ID, LS_content_length: String(CONTENT_LENGTH), LS_send_sync: 'false' }
+        : { LS_session: sessionId ?? '', LS_content_length: String(CONTENT_LENGTH), LS_send_sync: 'false' };
+      const response = await post(request === 'create_session' ? serverUrl : controlUrl, request, params, abort.signal);
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      feedWatchdog();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        feedWatchdog();
+        buffer += value;
+        const lines = buffer.split('\r\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.startsWith('LOOP')) loop = true;
+          else if (line) handleLine(line);
+        }
+      }
+    } catch (err) {
+      if (running) console.error('Telemetry relay: upstream stream failed:', err);
+    }
+
+    clearWatchdog();
+    if (!running) return;
+    if (loop && sessionId) {
+      openStream('bind_session');
+    } else {
+      scheduleReconnect();
+    }
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      openStream('create_session');
+    },
+
+    stop() {
+      running = false;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      clearWatchdog();
+      abort?.abort();
+      if (sessionId) {
+        // Let the server free the session instead of waiting for it to time out
+        post(controlUrl, 'control', { LS_reqId: String(++requestId), LS_op: 'destroy', LS_session: sessionId })
+          .catch(() => {});
+        sessionId = null;
+      }
+      onConnectionChange(false);
+    },
+  };
+}
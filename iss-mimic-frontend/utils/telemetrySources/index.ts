@@ -0,0 +1,63 @@
+import { createLightstreamerSource } from './lightstreamer';
+import { createRelaySource } from './relay';
+import { createReplaySource } from './replay';
+import { createSyntheticSource } from './synthetic';
+import {
+  DEFAULT_TELEMETRY_SOURCE_CONFIG,
+  TelemetrySource,
+  TelemetrySourceConfig,
+  TelemetrySourceHandlers,
+  TelemetrySourceKind,
+} from './types';
+
+export * from './types';
+
+const SOURCE_KINDS: TelemetrySourceKind[] = ['lightstreamer', 'replay', 'synthetic', 'relay'];
+
+/**
+ * Reads the source configuration from NEXT_PUBLIC_TELEMETRY_* environment
+ * variables, falling back to live ISSLIVE data
+ *
+ * @returns The configuration
+ */
+export function getTelemetrySourceConfig(): TelemetrySourceConfig {
+  // Written out in full so Next.js can inline them into the client bundle
+  const kind = process.env.NEXT_PUBLIC_TELEMETRY_SOURCE as TelemetrySourceKind | undefined;
+  const replaySpeed = Number(process.env.NEXT_PUBLIC_TELEMETRY_REPLAY_SPEED);
+  const defaults = DEFAULT_TELEMETRY_SOURCE_CONFIG;
+
+  return {
+    kind: kind && SOURCE_KINDS.includes(kind) ? kind : defaults.kind,
+    lightstreamerUrl: process.env.NEXT_PUBLIC_TELEMETRY_LIGHTSTREAMER_URL || defaults.lightstreamerUrl,
+    adapterSet: process.env.NEXT_PUBLIC_TELEMETRY_ADAPTER_SET || defaults.adapterSet,
+    forcedTransport: process.env.NEXT_PUBLIC_TELEMETRY_FORCED_TRANSPORT || defaults.forcedTransport,
+    replayUrl: process.env.NEXT_PUBLIC_TELEMETRY_REPLAY_URL || defaults.replayUrl,
+    replaySpeed: replaySpeed > 0 ? replaySpeed : defaults.replaySpeed,
+    relayUrl: process.env.NEXT_PUBLIC_TELEMETRY_RELAY_URL || defaults.relayUrl,
+  };
+}
+
+/**
+ * Builds the telemetry source for a configuration
+ *
+ * @param config Which source to create and its settings
+ * @param handlers Callbacks for updates and connection changes
+ * @returns A source that has not been started
+ */
+export function createTelemetrySource(config: TelemetrySourceConfig, handlers: TelemetrySourceHandlers): TelemetrySource {
+  switch (config.kind) {
+    case 'replay':
+      return createReplaySource(handlers, { url: config.replayUrl, speed: config.replaySpeed });
+    case 'synthetic':
+      return createSyntheticSource(handlers);
+    case 'relay':
+      return createRelaySource(handlers, { url: config.relayUrl });
+    case 'lightstreamer':
+    default:
+      return createLightstreamerSource(handlers, {
+        serverUrl: config.lightstreamerUrl,
+        adapterSet: config.adapterSet,
+        forcedTransport: config.forcedTransport,
+      });
+  }
+}
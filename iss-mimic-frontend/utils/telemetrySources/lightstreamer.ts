@@ -0,0 +1,112 @@
+import { LightstreamerClient, Subscription } from 'lightstreamer-client-web';
+import { TIME_ITEM_ID } from '../telemetryRecording';
+import { TelemetrySource, TelemetrySourceHandlers } from './types';
+
+// Fields requested for telemetry items and for the signal item
+const TELEMETRY_FIELDS = ["TimeStamp", "Value"];
+const TIME_FIELDS = ['TimeStamp', 'Value', 'Status.Class', 'Status.Indicator'];
+
+interface LightstreamerOptions {
+  serverUrl: string;
+  adapterSet: string;
+  forcedTransport: string | null;
+}
+
+// Define types for the update parameter
+interface ItemUpdate {
+  getValue: (fieldName: string) => string;
+  getItemName: () => string;
+}
+
+const readFields = (update: ItemUpdate, fieldNames: string[]): Record<string, string> =>
+  Object.fromEntries(fieldNames.map(name => [name, update.getValue(name)]));
+
+/**
+ * Live telemetry from a Lightstreamer server: ISSLIVE itself, or the local
+ * emulator in scripts/isslive-emulator.mjs
+ */
+export function createLightstreamerSource(
+  { onUpdate, onConnectionChange }: TelemetrySourceHandlers,
+  { serverUrl, adapterSet, forcedTransport }: LightstreamerOptions
+): TelemetrySource {
+  let lsClient: LightstreamerClient | null = null;
+  let telemetrySub: Subscription | null = null;
+  let itemIds: string[] = [];
+
+  // Swap the telemetry subscription for one covering the current items
+  const resubscribe = () => {
+    if (!lsClient) return;
+    if (telemetrySub) {
+      lsClient.unsubscribe(telemetrySub);
+      telemetrySub = null;
+    }
+    if (itemIds.length === 0) return;
+
+    const sub = new Subscription("MERGE", itemIds, TELEMETRY_FIELDS);
+    sub.addListener({
+      onSubscription: function() {
+        console.log("Subscribed to telemetry data");
+      },
+      onUnsubscription: function() {
+        console.log("Unsubscribed from telemetry data");
+      },
+      onItemUpdate: function(update: ItemUpdate) {
+        onUpdate(update.getItemName(), readFields(update, TELEMETRY_FIELDS), Date.now());
+      }
+    });
+    lsClient.subscribe(sub);
+    telemetrySub = sub;
+  };
+
+  return {
+    kind: 'lightstreamer',
+    label: serverUrl === 'https://push.lightstreamer.com' ? 'ISSLIVE' : `Lightstreamer (${serverUrl})`,
+
+    start() {
+      if (lsClient) return;
+      // Initialize the Lightstreamer client
+      const client = new LightstreamerClient(serverUrl, adapterSet);
+      client.connectionOptions.setSlowingEnabled(false);
+      if (forcedTransport) {
+        client.connectionOptions.setForcedTransport(forcedTransport);
+      }
+
+      // Add connection status listener
+      client.addListener({
+        onStatusChange: function(status) {
+          console.log(`Connection status: ${status}`);
+          onConnectionChange(status === "CONNECTED:STREAM-SENSING");
+        }
+      });
+
+      // Create a subscription for the time signal
+      const timeSub = new Subscription('MERGE', TIME_ITEM_ID, TIME_FIELDS);
+      timeSub.addListener({
+        onItemUpdate: function(update: ItemUpdate) {
+          onUpdate(TIME_ITEM_ID, readFields(update, TIME_FIELDS), Date.now());
+        }
+      });
+
+      client.subscribe(timeSub);
+      client.connect();
+      lsClient = client;
+      resubscribe();
+    },
+
+    stop() {
+      if (!lsClient) return;
+      // Disconnecting drops every subscription with the session
+      if (lsClient.getStatus() !== 'DISCONNECTED') {
+        lsClient.disconnect();
+      }
+      lsClient = null;
+      telemetrySub = null;
+      onConnectionChange(false);
+    },
+
+    setItems(ids) {
+      itemIds = ids;
+      resubscribe();
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { StoredHistory } from '../telemetryHistory';
+import { TIME_ITEM_ID } from '../telemetryRecording';
+import { TelemetrySource, TelemetrySourceHandlers } from './types';
+
+interface RelayOptions {
+  // Base path of the relay routes, normally "/api/telemetry"
+  url: string;
+}
+
+interface RelayUpdateMessage {
+  itemId: string;
+  fields: Record<string, string>;
+  observedAt: number;
+}
+
+/**
+ * Reads telemetry from this app's own server relay over Server-Sent Events,
+ * so every browser shares one ISSLIVE session
+ */
+export function createRelaySource(
+  { onUpdate, onConnectionChange }: TelemetrySourceHandlers,
+  { url }: RelayOptions
+): TelemetrySource {
+  let itemIds: string[] = [];
+  let events: EventSource | null = null;
+  // Connected means both the stream to us and the relay's upstream are up
+  let streamOpen = false;
+  let upstreamConnected = false;
+
+  const reportConnection = () => onConnectionChange(streamOpen && upstreamConnected);
+
+  const deliver = ({ itemId, fields, observedAt }: RelayUpdateMessage) => {
+    if (itemId === TIME_ITEM_ID || itemIds.includes(itemId)) {
+      onUpdate(itemId, fields, observedAt);
+    }
+  };
+
+  return {
+    kind: 'relay',
+    label: 'Relay',
+
+    start() {
+      if (events) return;
+      events = new EventSource(`${url}/stream`);
+
+      events.addEventListener('snapshot', event => {
+        const snapshot = JSON.parse((event as MessageEvent).data) as { connected: boolean; updates: RelayUpdateMessage[] };
+        streamOpen = true;
+        upstreamConnected = snapshot.connected;
+        reportConnection();
+        snapshot.updates.forEach(deliver);
+      });
+      events.addEventListener('update', event => {
+        deliver(JSON.parse((event as MessageEvent).data));
+      });
+      events.addEventListener('status', event => {
+        upstreamConnected = (JSON.parse((event as MessageEvent).data) as { connected: boolean }).connected;
+        reportConnection();
+      });
+      // EventSource retries by itself; a fresh snapshot follows when it does
+      events.onerror = () => {
+        streamOpen = false;
+        reportConnection();
+      };
+    },
+
+    stop() {
+      events?.close();
+      events = null;
+      streamOpen = false;
+      onConnectionChange(false);
+    },
+
+    setItems(ids) {
+      itemIds = ids;
+    },
+
+    async loadHistory(ids) {
+      const response = await fetch(`${url}?history=${encodeURIComponent(ids.join(','))}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const body = await response.json() as { history: Record<string, StoredHistory> };
+      return body.history;
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { createReplayPlayer, parseRecording, ReplayPlayer, TIME_ITEM_ID } from '../telemetryRecording';
+import { TelemetrySource, TelemetrySourceHandlers } from './types';
+
+interface ReplayOptions {
+  url: string;
+  speed: number;
+}
+
+/**
+ * Plays a recording made with the Record Session button, looping forever,
+ * e.g. for an exhibit that should not depend on the network
+ */
+export function createReplaySource(
+  { onUpdate, onConnectionChange }: TelemetrySourceHandlers,
+  { url, speed }: ReplayOptions
+): TelemetrySource {
+  let itemIds: string[] = [];
+  let player: ReplayPlayer | null = null;
+  let stopped = true;
+
+  return {
+    kind: 'replay',
+    label: 'Replay',
+
+    start() {
+      if (!stopped) return;
+      stopped = false;
+
+      fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.text();
+        })
+        .then(text => {
+          if (stopped) return;
+          const recording = parseRecording(text);
+          const fileName = url.split('/').pop() ?? url;
+
+          player = createReplayPlayer(
+            recording,
+            fileName,
+            update => {
+              if (update.item === TIME_ITEM_ID || itemIds.includes(update.item)) {
+                onUpdate(update.item, update.fields, recording.startedAt + update.at);
+              }
+            },
+            state => {
+              // Start over once the end is reached
+              if (!state.playing && state.durationMs > 0 && state.positionMs >= state.durationMs && !stopped) {
+                player?.play();
+              }
+            }
+          );
+          player.setSpeed(speed);
+          player.seek(0);
+          player.play();
+          onConnectionChange(true);
+        })
+        .catch(err => {
+          console.error(`Failed to load telemetry recording ${url}:`, err);
+          onConnectionChange(false);
+        });
+    },
+
+    stop() {
+      stopped = true;
+      player?.stop();
+      player = null;
+      onConnectionChange(false);
+    },
+
+    setItems(ids) {
+      itemIds = ids;
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { calculateIssTimestamp } from '../issTime';
+import { TIME_ITEM_ID } from '../telemetryRecording';
+import { TelemetrySource, TelemetrySourceHandlers } from './types';
+
+// How often every item gets a new value
+const TICK_MS = 1000;
+
+// One orbit, in ms; the SARJs turn once per orbit to follow the sun
+const ORBIT_MS = 92.9 * 60 * 1000;
+
+// Resting values and swing for the float items, by id
+const FLOAT_PROFILES: Record<string, { base: number; swing: number }> = {
+  USLAB000018: { base: 22.5, swing: 0.4 },
+  USLAB000024: { base: 757, swing: 1.5 },
+  NODE3000002: { base: 160, swing: 2 },
+  NODE3000003: { base: 2.5, swing: 0.3 },
+  NODE3000005: { base: 45, swing: 30 },
+};
+
+const BGA_IDS = ['P4000007', 'P4000008', 'P6000007', 'P6000008', 'S4000007', 'S4000008', 'S6000007', 'S6000008'];
+
+const wrapDegrees = (angle: number): number => ((angle % 360) + 360) % 360;
+
+/**
+ * Plausible value for an item at a moment, as ISSLIVE would send it
+ * @param itemId Telemetry item id
+ * @param now ms since epoch
+ * @returns The raw "Value" field
+ */
+export function getSyntheticValue(itemId: string, now: number): string {
+  const orbitPhase = (now % ORBIT_MS) / ORBIT_MS;
+  const wave = Math.sin(2 * Math.PI * orbitPhase);
+
+  if (itemId === 'S0000003') return wrapDegrees(orbitPhase * 360).toFixed(4);
+  // The port SARJ turns the other way round
+  if (itemId === 'S0000004') return wrapDegrees(360 - orbitPhase * 360).toFixed(4);
+
+  const bgaIndex = BGA_IDS.indexOf(itemId);
+  if (bgaIndex >= 0) {
+    // Each array nods around its own resting angle
+    return wrapDegrees(bgaIndex * 45 + 30 * Math.sin(2 * Math.PI * orbitPhase + bgaIndex)).toFixed(4);
+  }
+
+  // CMGs all spinning
+  if (/^S00000(18|19|20|21)$/.test(itemId)) return '1';
+  // Standard mode
+  if (itemId === 'USLAB000086') return '7';
+
+  const profile = FLOAT_PROFILES[itemId];
+  return profile ? (profile.base + profile.swing * wave).toFixed(3) : '0';
+}
+
+/**
+ * Generated telemetry for working offline: arrays turning through an orbit
+ * and steady cabin readings, always in signal
+ */
+export function createSyntheticSource({ onUpdate, onConnectionChange }: TelemetrySourceHandlers): TelemetrySource {
+  let itemIds: string[] = [];
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const tick = () => {
+    const now = Date.now();
+    const timestamp = String(calculateIssTimestamp(new Date(now)));
+    onUpdate(TIME_ITEM_ID, {
+      'TimeStamp': timestamp,
+      'Value': timestamp,
+      'Status.Class': '24',
+      'Status.Indicator': '1',
+    }, now);
+    for (const itemId of itemIds) {
+      onUpdate(itemId, { TimeStamp: timestamp, Value: getSyntheticValue(itemId, now) }, now);
+    }
+  };
+
+  return {
+    kind: 'synthetic',
+    label: 'Synthetic',
+
+    start() {
+      if (timer) return;
+      timer = setInterval(tick, TICK_MS);
+      onConnectionChange(true);
+      tick();
+    },
+
+    stop() {
+      if (!timer) return;
+      clearInterval(timer);
+      timer = null;
+      onConnectionChange(false);
+    },
+
+    setItems(ids) {
+      itemIds = ids;
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { StoredHistory } from '../telemetryHistory';
+
+/**
+ * Where ISS telemetry comes from. TelemetryContext talks to whichever
+ * source is configured through this interface only, so the app runs the
+ * same against ISSLIVE, a recording or generated data.
+ */
+
+export type TelemetrySourceKind = 'lightstreamer' | 'replay' | 'synthetic' | 'relay';
+
+// Callbacks TelemetryContext gives a source when creating it
+export interface TelemetrySourceHandlers {
+  // An update with fields named as on ISSLIVE ("TimeStamp", "Value", ...).
+  // observedAt is when the update was current, ms since epoch; for a
+  // recording that is when it was recorded.
+  onUpdate: (itemId: string, fields: Record<string, string>, observedAt: number) => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+export interface TelemetrySource {
+  kind: TelemetrySourceKind;
+  label: string;
+  start: () => void;
+  stop: () => void;
+  // Replaces the telemetry items to deliver; the signal item is always sent
+  setItems: (itemIds: string[]) => void;
+  // History the source kept before this page opened, if it keeps any
+  loadHistory?: (itemIds: string[]) => Promise<Record<string, StoredHistory>>;
+}
+
+export interface TelemetrySourceConfig {
+  kind: TelemetrySourceKind;
+  lightstreamerUrl: string;
+  adapterSet: string;
+  // e.g. "HTTP-STREAMING" for the local emulator, which has no WebSocket support
+  forcedTransport: string | null;
+  // Recording played (and looped) by the replay source
+  replayUrl: string;
+  replaySpeed: number;
+  // Base path of the server relay's routes
+  relayUrl: string;
+}
+
+export const DEFAULT_TELEMETRY_SOURCE_CONFIG: TelemetrySourceConfig = {
+  kind: 'lightstreamer',
+  lightstreamerUrl: 'https://push.lightstreamer.com',
+  adapterSet: 'ISSLIVE',
+  forcedTransport: null,
+  replayUrl: '/recordings/orbit.json',
+  replaySpeed: 1,
+  relayUrl: '/api/telemetry',
+};
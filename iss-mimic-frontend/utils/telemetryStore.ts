@@ -0,0 +1,117 @@
+/**
+ * Keyed values that React components subscribe to one key at a time.
+ *
+ * Writes are collected and published together once per animation frame, so
+ * a burst of Lightstreamer updates costs one render per affected component,
+ * and a component only renders when a key it reads has changed.
+ */
+
+type Listener = () => void;
+
+export interface TelemetryStore<T> {
+  set: (key: string, value: T) => void;
+  // Replaces every value; keys missing from values are removed
+  replaceAll: (values: Record<string, T>) => void;
+  get: (key: string) => T | undefined;
+  // The same object until something changes, as useSyncExternalStore needs
+  getAll: () => Record<string, T>;
+  subscribe: (key: string, listener: Listener) => () => void;
+  subscribeAll: (listener: Listener) => () => void;
+  // Publishes pending writes now instead of on the next frame
+  flush: () => void;
+}
+
+// Background tabs get no animation frames, so a timer publishes as well
+const FALLBACK_FLUSH_MS = 250;
+
+/**
+ * Creates an empty store
+ * @returns The store
+ */
+export function createTelemetryStore<T>(): TelemetryStore<T> {
+  let values: Record<string, T> = {};
+  // Pending writes; undefined marks a removal
+  let pending = new Map<string, T | undefined>();
+  let frame: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const keyListeners = new Map<string, Set<Listener>>();
+  const allListeners = new Set<Listener>();
+
+  const flush = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    if (timer !== null) clearTimeout(timer);
+    frame = null;
+    timer = null;
+    if (pending.size === 0) return;
+
+    const changes = pending;
+    pending = new Map();
+    const next = { ...values };
+    const changed: string[] = [];
+    changes.forEach((value, key) => {
+      if (next[key] === value) return;
+      if (value === undefined) delete next[key];
+      else next[key] = value;
+      changed.push(key);
+    });
+    if (changed.length === 0) return;
+
+    values = next;
+    for (const key of changed) {
+      keyListeners.get(key)?.forEach(listener => listener());
+    }
+    allListeners.forEach(listener => listener());
+  };
+
+  const schedule = () => {
+    if (frame !== null || timer !== null) return;
+    if (typeof requestAnimationFrame === 'function') {
+      frame = requestAnimationFrame(flush);
+    }
+    timer = setTimeout(flush, FALLBACK_FLUSH_MS);
+  };
+
+  return {
+    set(key, value) {
+      pending.set(key, value);
+      schedule();
+    },
+
+    replaceAll(replacement) {
+      pending.clear();
+      for (const key of Object.keys(values)) {
+        if (!(key in replacement)) pending.set(key, undefined);
+      }
+      for (const [key, value] of Object.entries(replacement)) {
+        pending.set(key, value);
+      }
+      schedule();
+    },
+
+    get: key => values[key],
+
+    getAll: () => values,
+
+    subscribe(key, listener) {
+      let listeners = keyListeners.get(key);
+      if (!listeners) {
+        listeners = new Set();
+        keyListeners.set(key, listeners);
+      }
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) keyListeners.delete(key);
+      };
+    },
+
+    subscribeAll(listener) {
+      allListeners.add(listener);
+      return () => {
+        allListeners.delete(listener);
+      };
+    },
+
+    flush,
+  };
+}
@@ -0,0 +1,48 @@
+import { createWebBluetoothTransport } from './webBluetooth';
+import { createWebSerialTransport } from './webSerial';
+import { createWebSocketTransport } from './webSocket';
+import { createSimulatorTransport } from './simulator';
+import { DEFAULT_TRANSPORT_OPTIONS, RobotTransport, TransportHandlers, TransportKind, TransportOptions } from './types';
+
+export * from './types';
+
+// Order in which transports are offered in the UI
+export const TRANSPORT_KINDS: { kind: TransportKind; label: string }[] = [
+  { kind: 'bluetooth', label: 'Bluetooth' },
+  { kind: 'serial', label: 'USB Serial' },
+  { kind: 'websocket', label: 'WebSocket Bridge' },
+  { kind: 'simulator', label: 'Simulator' },
+];
+
+/**
+ * Builds the transport for a given kind
+ *
+ * @param kind Which transport to create
+ * @param handlers Callbacks for incoming data and unexpected disconnects
+ * @param options Settings used by some transports
+ * @returns A disconnected transport
+ */
+export function createTransport(kind: TransportKind, handlers: TransportHandlers, options: TransportOptions): RobotTransport {
+  switch (kind) {
+    case 'serial':
+      return createWebSerialTransport(handlers);
+    case 'websocket':
+      return createWebSocketTransport(handlers, options.websocketUrl);
+    case 'simulator':
+      return createSimulatorTransport(handlers);
+    case 'bluetooth':
+    default:
+      return createWebBluetoothTransport(handlers);
+  }
+}
+
+/**
+ * Checks whether the browser can use a transport, without connecting
+ *
+ * @param kind Transport to check
+ * @returns True if the needed browser API exists
+ */
+export function isTransportKindSupported(kind: TransportKind): boolean {
+  const noop = { onData: () => {}, onDisconnect: () => {} };
+  return createTransport(kind, noop, DEFAULT_TRANSPORT_OPTIONS).isSupported();
+}
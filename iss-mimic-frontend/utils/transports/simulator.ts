@@ -0,0 +1,36 @@
+import { virtualRobot } from '../simulator/virtualRobot';
+import { RobotTransport, TransportHandlers } from './types';
+
+/**
+ * Connects to the in-browser virtual robot instead of real hardware
+ *
+ * The virtual link never drops by itself, so onDisconnect is never called.
+ */
+export function createSimulatorTransport({ onData }: TransportHandlers): RobotTransport {
+  let connected = false;
+
+  return {
+    kind: 'simulator',
+    label: 'Simulator',
+
+    isSupported: () => true,
+
+    async connect() {
+      virtualRobot.connect(onData);
+      connected = true;
+      return 'Virtual XRP';
+    },
+
+    async disconnect() {
+      connected = false;
+      virtualRobot.disconnect();
+    },
+
+    async write(data) {
+      if (!connected) {
+        throw new Error('Not connected');
+      }
+      virtualRobot.receive(data);
+    },
+  };
+}
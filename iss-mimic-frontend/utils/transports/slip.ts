@@ -0,0 +1,65 @@
+/**
+ * SLIP framing (RFC 1055) for byte-stream transports such as Web Serial.
+ *
+ * Every packet is sent as its bytes followed by END, with END and ESC
+ * inside the packet escaped. `SerialLinkAgent` in pestolink_adapted.py
+ * uses the same framing.
+ */
+
+const END = 0xC0;
+const ESC = 0xDB;
+const ESC_END = 0xDC;
+const ESC_ESC = 0xDD;
+
+// An empty frame; SerialLinkAgent takes it as a keepalive and nothing else
+export const SLIP_KEEPALIVE = new Uint8Array([END]);
+
+/**
+ * Frames one packet for sending
+ *
+ * @param packet Raw packet bytes
+ * @returns SLIP-encoded bytes, starting and ending with END
+ */
+export function slipEncode(packet: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out: number[] = [END];
+  for (const byte of packet) {
+    if (byte === END) {
+      out.push(ESC, ESC_END);
+    } else if (byte === ESC) {
+      out.push(ESC, ESC_ESC);
+    } else {
+      out.push(byte);
+    }
+  }
+  out.push(END);
+  return new Uint8Array(out);
+}
+
+/**
+ * Creates a decoder that turns stream chunks back into packets
+ *
+ * @param onPacket Called with each complete, non-empty packet
+ * @returns Function to feed received chunks into
+ */
+export function createSlipDecoder(onPacket: (packet: Uint8Array) => void): (chunk: Uint8Array) => void {
+  let buffer: number[] = [];
+  let escaped = false;
+
+  return (chunk: Uint8Array) => {
+    for (const byte of chunk) {
+      if (escaped) {
+        buffer.push(byte === ESC_END ? END : byte === ESC_ESC ? ESC : byte);
+        escaped = false;
+      } else if (byte === ESC) {
+        escaped = true;
+      } else if (byte === END) {
+        if (buffer.length > 0) {
+          onPacket(Uint8Array.from(buffer));
+        }
+        buffer = [];
+      } else {
+        buffer.push(byte);
+      }
+    }
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * A way of exchanging packets with the robot. BluetoothContext talks to
+ * whichever transport is selected through this interface only.
+ */
+
+export type TransportKind = 'bluetooth' | 'serial' | 'websocket' | 'simulator';
+
+// Callbacks the connection layer gives a transport when creating it
+export interface TransportHandlers {
+  // A notification from the robot (telemetry, acks, announcements)
+  onData: (data: DataView) => void;
+  // The link dropped without disconnect() being called
+  onDisconnect: () => void;
+}
+
+export interface RobotTransport {
+  kind: TransportKind;
+  label: string;
+  isSupported: () => boolean;
+  // Resolves with a display name for the connected robot
+  connect: () => Promise<string>;
+  disconnect: () => Promise<void>;
+  write: (data: Uint8Array<ArrayBuffer>) => Promise<void>;
+  // Reopens a robot the browser already has permission for, without a chooser.
+  // Only transports that can remember devices across page loads provide it.
+  connectKnown?: (name: string) => Promise<string>;
+  // False while connected to a robot that cannot send notifications at all.
+  // Transports without it always have a channel back.
+  hasTelemetry?: () => boolean;
+}
+
+export interface TransportOptions {
+  websocketUrl: string;
+}
+
+export const DEFAULT_TRANSPORT_OPTIONS: TransportOptions = {
+  websocketUrl: 'ws://localhost:8765',
+};
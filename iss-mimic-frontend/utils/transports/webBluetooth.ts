@@ -0,0 +1,163 @@
+import { RobotTransport, TransportHandlers } from './types';
+
+// BLE UUIDs
+const SERVICE_UUID_PESTOBLE = '27df26c5-83f4-4964-bae0-d7b7cb0a1f54';
+const CHARACTERISTIC_UUID_GAMEPAD = '452af57e-ad27-422c-88ae-76805ea641a9';
+const CHARACTERISTIC_UUID_TELEMETRY = '266d9d74-3e10-4fcd-88d2-cb63b5324d0c';
+
+// How long to listen for a remembered robot's advertisements before giving up
+const ADVERTISEMENT_TIMEOUT_MS = 10000;
+
+/**
+ * Lists robots this site already has Bluetooth permission for
+ *
+ * @returns The permitted devices, or an empty list where getDevices() is unavailable
+ */
+export async function getPermittedBluetoothDevices(): Promise<BluetoothDevice[]> {
+  if (typeof navigator === 'undefined' || !navigator.bluetooth?.getDevices) {
+    return [];
+  }
+  try {
+    return await navigator.bluetooth.getDevices();
+  } catch (err) {
+    console.log('Could not list permitted Bluetooth devices:', err);
+    return [];
+  }
+}
+
+/**
+ * Resolves once the device advertises, i.e. is powered on and in range.
+ * A permitted device cannot be connected to before that.
+ */
+function waitForAdvertisement(device: BluetoothDevice, timeoutMs: number): Promise<void> {
+  const watchAdvertisements = device.watchAdvertisements?.bind(device);
+  if (!watchAdvertisements) {
+    // Nothing to wait with, so just let the GATT connect try
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const abort = new AbortController();
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      device.removeEventListener('advertisementreceived', handleAdvertisement);
+      abort.abort();
+      if (error) reject(error);
+      else resolve();
+    };
+    const handleAdvertisement = () => finish();
+    const timer = setTimeout(() => finish(new Error(`${device.name ?? 'Robot'} is not in range`)), timeoutMs);
+
+    device.addEventListener('advertisementreceived', handleAdvertisement);
+    watchAdvertisements({ signal: abort.signal }).catch(err => finish(err));
+  });
+}
+
+/**
+ * Talks to the PestoLink BLE service on the XRP
+ *
+ * The chosen device is remembered, so connecting again after a disconnect
+ * does not show the browser's chooser. connectKnown reopens a device from an
+ * earlier visit, where the browser supports getDevices().
+ */
+export function createWebBluetoothTransport({ onData, onDisconnect }: TransportHandlers): RobotTransport {
+  let device: BluetoothDevice | null = null;
+  let gamepadCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  let telemetryCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+
+  const handleTelemetryCharacteristic = (event: Event): void => {
+    const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+    if (value) onData(value);
+  };
+
+  const handleDisconnection = (): void => {
+    gamepadCharacteristic = null;
+    telemetryCharacteristic = null;
+    onDisconnect();
+  };
+
+  // Connect GATT, find the characteristics and start telemetry on the chosen device
+  const openDevice = async (selected: BluetoothDevice): Promise<string> => {
+    const server = await selected.gatt?.connect();
+    if (!server) {
+      throw new Error('Failed to connect to GATT server');
+    }
+
+    const service = await server.getPrimaryService(SERVICE_UUID_PESTOBLE);
+
+    // Connect to the gamepad characteristic
+    gamepadCharacteristic = await service.getCharacteristic(CHARACTERISTIC_UUID_GAMEPAD);
+
+    // Connect to telemetry if available
+    try {
+      const characteristic = await service.getCharacteristic(CHARACTERISTIC_UUID_TELEMETRY);
+      await characteristic.startNotifications();
+      characteristic.addEventListener('characteristicvaluechanged', handleTelemetryCharacteristic);
+      telemetryCharacteristic = characteristic;
+    } catch (err) {
+      console.log("Telemetry characteristic not available.");
+    }
+
+    // Set up disconnect handler
+    selected.addEventListener('gattserverdisconnected', handleDisconnection);
+
+    return selected.name ?? 'Unnamed robot';
+  };
+
+  return {
+    kind: 'bluetooth',
+    label: 'Bluetooth',
+
+    isSupported: () => typeof navigator !== 'undefined' && !!navigator.bluetooth,
+
+    // Older firmware has no telemetry characteristic
+    hasTelemetry: () => telemetryCharacteristic !== null,
+
+    async connect() {
+      // Use existing device or request a new one
+      if (!device) {
+        if (!navigator.bluetooth) {
+          throw new Error('Web Bluetooth API not supported in this browser');
+        }
+        device = await navigator.bluetooth.requestDevice({
+          filters: [{ services: [SERVICE_UUID_PESTOBLE] }]
+        });
+      }
+      return openDevice(device);
+    },
+
+    async connectKnown(name) {
+      const known = (await getPermittedBluetoothDevices()).find(candidate => candidate.name === name);
+      if (!known) {
+        throw new Error(`${name} is not a remembered robot`);
+      }
+      await waitForAdvertisement(known, ADVERTISEMENT_TIMEOUT_MS);
+      device = known;
+      return openDevice(known);
+    },
+
+    async disconnect() {
+      if (!device) return;
+
+      if (telemetryCharacteristic) {
+        await telemetryCharacteristic.stopNotifications();
+        telemetryCharacteristic.removeEventListener('characteristicvaluechanged', handleTelemetryCharacteristic);
+        telemetryCharacteristic = null;
+      }
+
+      device.removeEventListener('gattserverdisconnected', handleDisconnection);
+
+      if (device.gatt?.connected) {
+        device.gatt.disconnect();
+      }
+      gamepadCharacteristic = null;
+    },
+
+    async write(data) {
+      if (!gamepadCharacteristic) {
+        throw new Error('Not connected');
+      }
+      await gamepadCharacteristic.writeValueWithoutResponse(data);
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { createSlipDecoder, SLIP_KEEPALIVE, slipEncode } from './slip';
+import { RobotTransport, TransportHandlers } from './types';
+
+// The XRP's USB serial port; the baud rate is ignored by USB CDC but required by the API
+const SERIAL_BAUD_RATE = 115200;
+
+// Notifications from the robot are always this long (see telemetryPrint)
+const NOTIFICATION_LENGTH = 11;
+
+// SerialLinkAgent drops the link after 2 s without a frame (_SERIAL_TIMEOUT_MS),
+// and nothing else may be sent for a while, e.g. before pings start
+const KEEPALIVE_MS = 500;
+
+/**
+ * Talks to the XRP over a USB cable with the Web Serial API
+ *
+ * Packets are SLIP-framed in both directions. Anything else the board prints
+ * (REPL output, print() calls) ends up as frames of the wrong length and is dropped.
+ * A port that drops unexpectedly is remembered and reopened on the next
+ * connect, so reconnecting does not show the port chooser again. While no
+ * packet has been written for a while, an empty frame keeps the link up.
+ */
+export function createWebSerialTransport({ onData, onDisconnect }: TransportHandlers): RobotTransport {
+  let port: SerialPort | null = null;
+  let lostPort: SerialPort | null = null;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let closing = false;
+  let keepaliveTimer: ReturnType<typeof setInterval> | null = null;
+  let lastWriteAt = 0;
+  // Only one writer may hold the stream at a time, so writes wait their turn
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const decode = createSlipDecoder(packet => {
+    if (packet.length === NOTIFICATION_LENGTH) {
+      onData(new DataView(packet.buffer, packet.byteOffset, packet.byteLength));
+    }
+  });
+
+  const stopKeepalive = () => {
+    if (keepaliveTimer) {
+      clearInterval(keepaliveTimer);
+      keepaliveTimer = null;
+    }
+  };
+
+  const writeFrame = (frame: Uint8Array): Promise<void> => {
+    const result = writeChain.then(async () => {
+      if (!port?.writable) {
+        throw new Error('Not connected');
+      }
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(frame);
+        lastWriteAt = Date.now();
+      } finally {
+        writer.releaseLock();
+      }
+    });
+    writeChain = result.catch(() => {});
+    return result;
+  };
+
+  // Pump the readable stream until it ends or the port goes away
+  const readLoop = async (activePort: SerialPort) => {
+    try {
+      while (activePort.readable) {
+        reader = activePort.readable.getReader();
+        try {
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            if (value) decode(value);
+          }
+        } finally {
+          reader.releaseLock();
+          reader = null;
+        }
+        if (closing) break;
+      }
+    } catch (err) {
+      console.error('Serial read error:', err);
+    }
+    if (!closing) {
+      stopKeepalive();
+      lostPort = activePort;
+      port = null;
+      onDisconnect();
+    }
+  };
+
+  return {
+    kind: 'serial',
+    label: 'USB Serial',
+
+    isSupported: () => typeof navigator !== 'undefined' && !!navigator.serial,
+
+    async connect() {
+      if (!navigator.serial) {
+        throw new Error('Web Serial API not supported in this browser');
+      }
+
+      const selectedPort = lostPort ?? await navigator.serial.requestPort();
+      await selectedPort.open({ baudRate: SERIAL_BAUD_RATE });
+      port = selectedPort;
+      lostPort = null;
+      closing = false;
+      readLoop(selectedPort);
+
+      lastWriteAt = Date.now();
+      stopKeepalive();
+      keepaliveTimer = setInterval(() => {
+        if (Date.now() - lastWriteAt < KEEPALIVE_MS) return;
+        writeFrame(SLIP_KEEPALIVE).catch(err => console.error('Serial keepalive failed:', err));
+      }, KEEPALIVE_MS / 2);
+
+      const info = selectedPort.getInfo();
+      return info.usbProductId !== undefined
+        ? `USB device ${info.usbVendorId?.toString(16)}:${info.usbProductId.toString(16)}`
+        : 'USB serial port';
+    },
+
+    async disconnect() {
+      lostPort = null;
+      stopKeepalive();
+      if (!port) return;
+      closing = true;
+      await reader?.cancel();
+      await port.close();
+      port = null;
+    },
+
+    async write(data) {
+      await writeFrame(slipEncode(data));
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { RobotTransport, TransportHandlers } from './types';
+
+/**
+ * Talks to a local bridge process over a WebSocket
+ *
+ * Each binary message is exactly one packet: the bridge forwards messages
+ * from the browser to the robot's gamepad characteristic unchanged, and
+ * sends every telemetry notification back as one message.
+ */
+export function createWebSocketTransport({ onData, onDisconnect }: TransportHandlers, url: string): RobotTransport {
+  let socket: WebSocket | null = null;
+
+  return {
+    kind: 'websocket',
+    label: 'WebSocket Bridge',
+
+    isSupported: () => typeof WebSocket !== 'undefined',
+
+    connect() {
+      return new Promise<string>((resolve, reject) => {
+        const ws = new WebSocket(url);
+        ws.binaryType = 'arraybuffer';
+
+        ws.onopen = () => {
+          socket = ws;
+          resolve(`Bridge at ${url}`);
+        };
+        ws.onerror = () => {
+          if (socket !== ws) reject(new Error(`Could not reach bridge at ${url}`));
+        };
+        ws.onmessage = (event: MessageEvent) => {
+          if (event.data instanceof ArrayBuffer) {
+            onData(new DataView(event.data));
+          }
+        };
+        ws.onclose = () => {
+          // Only report drops of the live socket, not our own disconnect()
+          if (socket === ws) {
+            socket = null;
+            onDisconnect();
+          }
+        };
+      });
+    },
+
+    async disconnect() {
+      const ws = socket;
+      socket = null;
+      ws?.close();
+    },
+
+    async write(data) {
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        throw new Error('Not connected');
+      }
+      socket.send(data);
+    },
+  };
+}